@@ -0,0 +1,86 @@
+import type { ParsedImportMap } from './import-map-resolver.js';
+import type { BuildSummary, ImportMapLogEvent, ImportMapEntryRef } from './log-events.js';
+
+// Number of downloads listed in BuildSummary.slowestDownloads
+const SLOWEST_DOWNLOADS = 5;
+
+// Collects the log events of one build, for its summary
+export class BuildReport {
+  private readonly mappedSpecifiers = new Set<string>();
+  // Scope prefix (or "" for the top-level imports) -> keys of matched entries
+  private readonly usedEntries = new Map<string, Set<string>>();
+  private readonly downloads: { url: string, bytes: number, durationMs: number }[] = [];
+  private cacheHits = 0;
+
+  add(event: ImportMapLogEvent) {
+    switch (event.type) {
+      case 'resolve-exact':
+      case 'resolve-prefix':
+        this.mappedSpecifiers.add(event.specifier);
+        this.entryUsed(event.key, event.scope);
+        break;
+      case 'download-finish':
+        this.downloads.push({ url: event.url, bytes: event.bytes, durationMs: event.durationMs });
+        break;
+      case 'cache-hit':
+        this.cacheHits++;
+        break;
+    }
+  }
+
+  // Also called for entries that block a specifier, which are used even
+  // though nothing resolves through them
+  entryUsed(key: string, scope: string | undefined) {
+    let keys = this.usedEntries.get(scope ?? '');
+    if (keys == null) {
+      keys = new Set();
+      this.usedEntries.set(scope ?? '', keys);
+    }
+    keys.add(key);
+  }
+
+  isEntryUsed(key: string, scope: string | undefined): boolean {
+    return this.usedEntries.get(scope ?? '')?.has(key) ?? false;
+  }
+
+  unusedEntries(importMap: ParsedImportMap): ImportMapEntryRef[] {
+    return importMapEntries(importMap)
+      .filter(entry => !this.isEntryUsed(entry.key, entry.scope));
+  }
+
+  summarize(importMap: ParsedImportMap): BuildSummary {
+    const slowestDownloads = [...this.downloads]
+      .sort((a, b) => b.durationMs - a.durationMs)
+      .slice(0, SLOWEST_DOWNLOADS)
+      .map(({ url, durationMs }) => ({ url, durationMs }));
+
+    return {
+      mappedSpecifiers: this.mappedSpecifiers.size,
+      unusedEntries: this.unusedEntries(importMap),
+      downloads: this.downloads.length,
+      bytesDownloaded: this.downloads.reduce((total, download) => total + download.bytes, 0),
+      cacheHits: this.cacheHits,
+      slowestDownloads,
+    };
+  }
+}
+
+// The entries of the import map that are expected to be used, top-level
+// imports first. Entries that block their key are left out, as they are
+// meant to go unmatched.
+export function importMapEntries(importMap: ParsedImportMap): ImportMapEntryRef[] {
+  const entries: ImportMapEntryRef[] = [];
+  for (const [key, entry] of importMap.imports.entries) {
+    if (entry.target != null) {
+      entries.push({ key, source: entry.source, path: entry.path });
+    }
+  }
+  for (const scope of importMap.scopes) {
+    for (const [key, entry] of scope.map.entries) {
+      if (entry.target != null) {
+        entries.push({ key, scope: scope.prefix, source: entry.source, path: entry.path });
+      }
+    }
+  }
+  return entries;
+}
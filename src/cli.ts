@@ -0,0 +1,59 @@
+#!/usr/bin/env node
+import { parseArgs } from 'node:util';
+
+import { vendorImportMap } from './vendor.js';
+
+const USAGE = `Usage: importmap-vendor [options] <entry point...>
+
+Downloads the HTTP(S) modules that the entry points import through the
+import map into a vendor directory, and writes an import map that points at
+the local copies.
+
+Options:
+  --import-map <path>      Import map JSON file, deno.json, or HTML document
+  --import-map-url <url>   Import map to fetch instead of --import-map
+  --vendor-dir <dir>       Directory to download modules into (default: vendor)
+  --output <path>          Import map to write (default: <vendor-dir>/import_map.json)
+  --allow-url-imports      Also vendor https:// imports written in local files
+  --help                   Show this message
+`;
+
+async function main(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      'import-map': { type: 'string' },
+      'import-map-url': { type: 'string' },
+      'vendor-dir': { type: 'string' },
+      'output': { type: 'string' },
+      'allow-url-imports': { type: 'boolean' },
+      'help': { type: 'boolean' },
+    },
+  });
+
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const result = await vendorImportMap({
+    entryPoints: positionals,
+    importMapPath: values['import-map'],
+    importMapUrl: values['import-map-url'],
+    vendorDir: values['vendor-dir'],
+    outputImportMap: values['output'],
+    allowUrlImports: values['allow-url-imports'],
+  });
+
+  console.log(`Vendored ${result.modules.length} module(s). Wrote ${result.importMapPath}.`);
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  exitCode => { process.exitCode = exitCode; },
+  err => {
+    console.error((err as Error).message);
+    process.exitCode = 1;
+  },
+);
@@ -0,0 +1,63 @@
+// Patterns for allowedHosts / deniedHosts:
+// - "esm.sh": exactly that host (any port, unless one is given, e.g. "localhost:8080")
+// - "*.example.com": any subdomain of example.com, but not example.com itself
+// - "https://cdn.example.com/npm/": any URL starting with that prefix
+export type HostPattern = string;
+
+export type HostPolicyOptions = {
+  allowedHosts?: HostPattern[];
+  deniedHosts?: HostPattern[];
+};
+
+type Matcher = {
+  pattern: HostPattern;
+  matches(url: URL): boolean;
+};
+
+export class HostPolicy {
+  private readonly allowed: Matcher[] | undefined;
+  private readonly denied: Matcher[];
+
+  constructor(options: HostPolicyOptions) {
+    this.allowed = options.allowedHosts?.map(createMatcher);
+    this.denied = (options.deniedHosts ?? []).map(createMatcher);
+  }
+
+  // Returns why the URL may not be fetched, or undefined if it may be.
+  // deniedHosts takes precedence over allowedHosts.
+  check(url: string): string | undefined {
+    const parsed = new URL(url);
+    const denied = this.denied.find(matcher => matcher.matches(parsed));
+    if (denied != null) {
+      return `matches deniedHosts entry "${denied.pattern}"`;
+    }
+    if (this.allowed != null && !this.allowed.some(matcher => matcher.matches(parsed))) {
+      return `does not match any allowedHosts entry`;
+    }
+    return undefined;
+  }
+}
+
+function createMatcher(pattern: HostPattern): Matcher {
+  if (pattern.includes('://')) {
+    let prefix: string;
+    try {
+      prefix = new URL(pattern).href;
+    } catch {
+      throw new Error(`Invalid host pattern "${pattern}": not a valid URL prefix.`);
+    }
+    return { pattern, matches: url => url.href.startsWith(prefix) };
+  }
+
+  const host = pattern.toLowerCase();
+  if (host === '' || host.includes('/')) {
+    throw new Error(`Invalid host pattern "${pattern}".`);
+  }
+  // Compare with the port only if the pattern has one
+  const hostOf = (url: URL) => host.includes(':') ? url.host : url.hostname;
+  if (host.startsWith('*.')) {
+    const suffix = host.slice(1); // ".example.com"
+    return { pattern, matches: url => hostOf(url).endsWith(suffix) };
+  }
+  return { pattern, matches: url => hostOf(url) === host };
+}
@@ -0,0 +1,133 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+// Response headers that are kept alongside cached bodies. etag and
+// last-modified are needed to revalidate entries.
+const CACHED_HEADERS = [
+  'content-type',
+  'etag',
+  'last-modified',
+];
+
+let tmpFileCounter = 0;
+
+export type HttpCacheEntry = {
+  // URL that was requested
+  url: string;
+  // Final URL after following redirects
+  resolvedUrl: string;
+  headers: Record<string, string>;
+  contents: Uint8Array;
+  // When the entry was last downloaded or revalidated (ms since the epoch)
+  fetchedAt: number;
+};
+
+// Metadata file for a URL. An entry for a URL that redirected only holds
+// the final URL, whose own metadata file holds the headers (and whose body
+// file holds the contents). This way, different URLs that redirect to the
+// same final URL share a single cached body.
+type HttpCacheMeta = {
+  url: string;
+  redirect?: string;
+  headers?: Record<string, string>;
+  fetchedAt?: number;
+};
+
+export class HttpCache {
+  public readonly dir: string;
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async get(url: string): Promise<HttpCacheEntry | undefined> {
+    let meta = await this.readMeta(url);
+    if (meta?.redirect != null) {
+      meta = await this.readMeta(meta.redirect);
+    }
+    if (meta?.headers == null) {
+      return undefined;
+    }
+
+    let contents: Uint8Array;
+    try {
+      contents = new Uint8Array(await readFile(this.filePath(meta.url, 'body')));
+    } catch (err) {
+      if (isNotFound(err)) {
+        return undefined;
+      }
+      throw err;
+    }
+
+    // Entries written before fetchedAt was recorded count as stale
+    return { url, resolvedUrl: meta.url, headers: meta.headers, contents, fetchedAt: meta.fetchedAt ?? 0 };
+  }
+
+  async set(url: string, resolvedUrl: string, headers: Headers, contents: Uint8Array): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+
+    // Body first, so that metadata never points at a missing body
+    await this.writeAtomic(this.filePath(resolvedUrl, 'body'), contents);
+    await this.writeMeta({ url: resolvedUrl, headers: pickCachedHeaders(headers), fetchedAt: Date.now() });
+    if (url !== resolvedUrl) {
+      await this.writeMeta({ url, redirect: resolvedUrl });
+    }
+  }
+
+  // Marks an entry as fresh after the server answered 304 Not Modified,
+  // updating the headers that the 304 response carries
+  async revalidated(entry: HttpCacheEntry, headers: Headers): Promise<void> {
+    await this.writeMeta({
+      url: entry.resolvedUrl,
+      headers: { ...entry.headers, ...pickCachedHeaders(headers, ['etag', 'last-modified']) },
+      fetchedAt: Date.now(),
+    });
+  }
+
+  private filePath(url: string, ext: 'json' | 'body') {
+    const key = createHash('sha256').update(url).digest('hex');
+    return join(this.dir, `${key}.${ext}`);
+  }
+
+  private async readMeta(url: string): Promise<HttpCacheMeta | undefined> {
+    let text: string;
+    try {
+      text = await readFile(this.filePath(url, 'json'), 'utf8');
+    } catch (err) {
+      if (isNotFound(err)) {
+        return undefined;
+      }
+      throw err;
+    }
+    const meta = JSON.parse(text) as HttpCacheMeta;
+    // Guard against (unlikely) hash collisions
+    return meta.url === url ? meta : undefined;
+  }
+
+  private async writeMeta(meta: HttpCacheMeta) {
+    await this.writeAtomic(this.filePath(meta.url, 'json'), JSON.stringify(meta, null, 2));
+  }
+
+  // Write to a temp file and rename, so that concurrent builds sharing a
+  // cache directory never see partially-written files
+  private async writeAtomic(filePath: string, data: string | Uint8Array) {
+    const tmpPath = `${filePath}.${process.pid}.${tmpFileCounter++}.tmp`;
+    await writeFile(tmpPath, data);
+    await rename(tmpPath, filePath);
+  }
+}
+
+function pickCachedHeaders(headers: Headers, names = CACHED_HEADERS): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const name of names) {
+    const value = headers.get(name);
+    if (value != null) {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+function isNotFound(err: unknown): boolean {
+  return (err as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
@@ -0,0 +1,202 @@
+import type { ImportMapLogEvent } from './log-events.js';
+
+export type FetchFunction = (url: string, init: RequestInit) => Promise<Response>;
+
+// Request headers, e.g. for auth or user-agent. A function receives the URL
+// being requested, so that credentials can be limited to their own host.
+export type RequestHeaders =
+  | HeadersInit
+  | ((url: string) => HeadersInit | undefined | Promise<HeadersInit | undefined>);
+
+export type HttpClientOptions = {
+  fetch?: FetchFunction;
+  headers?: RequestHeaders;
+  // Per attempt
+  timeoutMs?: number;
+  // Retries after network errors, timeouts and retryable status codes
+  retries?: number;
+  // Delay before the first retry, doubled for each further retry, unless
+  // the response has a Retry-After header
+  retryDelayMs?: number;
+  // Limit on requests in flight at once, shared by all requests of the client
+  maxConcurrentFetches?: number;
+  // Called with the URL of each redirect before it is followed. Returns why
+  // it may not be followed, or undefined if it may be.
+  checkRedirect?: (url: string) => string | undefined;
+  onEvent?: (event: ImportMapLogEvent) => void;
+};
+
+export type HttpResult = {
+  res: Response;
+  contents: Uint8Array;
+  // Final URL, after following redirects
+  url: string;
+  // Time the attempt that returned the response took
+  durationMs: number;
+  // A redirect that checkRedirect refused. res is then the redirect response.
+  blockedRedirect?: { url: string, reason: string };
+};
+
+// Request timeout, too many requests, and temporary server errors
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+const REDIRECT_STATUS_CODES = [301, 302, 303, 307, 308];
+
+// As in the Fetch spec
+const MAX_REDIRECTS = 20;
+
+// Upper bound for delays, including ones asked for with Retry-After
+const MAX_RETRY_DELAY_MS = 60_000;
+
+// Out-of-range values would make requests wait or retry forever
+function validateOptions(options: HttpClientOptions) {
+  const { retries, retryDelayMs, maxConcurrentFetches } = options;
+  if (retries != null && !(Number.isInteger(retries) && retries >= 0)) {
+    throw new Error(`retries must be an integer >= 0. Got ${retries}.`);
+  }
+  if (retryDelayMs != null && !(Number.isFinite(retryDelayMs) && retryDelayMs >= 0)) {
+    throw new Error(`retryDelayMs must be a number >= 0. Got ${retryDelayMs}.`);
+  }
+  if (maxConcurrentFetches != null && !(Number.isInteger(maxConcurrentFetches) && maxConcurrentFetches >= 1)) {
+    throw new Error(`maxConcurrentFetches must be an integer >= 1. Got ${maxConcurrentFetches}.`);
+  }
+}
+
+export class HttpClient {
+  private readonly options: HttpClientOptions;
+  private readonly semaphore: Semaphore;
+  constructor(options: HttpClientOptions = {}) {
+    validateOptions(options);
+    this.options = options;
+    this.semaphore = new Semaphore(options.maxConcurrentFetches ?? Infinity);
+  }
+
+  // GETs a URL and reads its body. Redirects are followed one by one, so
+  // that checkRedirect and the configured headers apply to each of them.
+  // After the last attempt, a response with a retryable status is returned
+  // as is, while a network error is thrown. requestHeaders (e.g.
+  // If-None-Match) are sent in addition to the configured headers.
+  async get(url: string, requestHeaders?: HeadersInit): Promise<HttpResult> {
+    const retries = this.options.retries ?? 0;
+    const attempts = retries + 1;
+
+    const onEvent = this.options.onEvent;
+    for (let attempt = 1; ; attempt++) {
+      onEvent?.({ type: 'download-start', url, attempt, attempts });
+
+      let result: HttpResult;
+      try {
+        result = await this.semaphore.run(() => this.fetchOnce(url, requestHeaders));
+      } catch (err) {
+        if (attempt === attempts) {
+          throw err;
+        }
+        const delayMs = this.retryDelay(attempt);
+        onEvent?.({ type: 'download-retry', url, attempt, attempts, reason: (err as Error).message, delayMs });
+        await sleep(delayMs);
+        continue;
+      }
+
+      const { res, contents, durationMs } = result;
+      if (!RETRYABLE_STATUS_CODES.includes(res.status) || attempt === attempts) {
+        onEvent?.({ type: 'download-finish', url, status: res.status, bytes: contents.length, durationMs });
+        return result;
+      }
+      const delayMs = this.retryDelay(attempt, res.headers.get('retry-after'));
+      onEvent?.({ type: 'download-retry', url, attempt, attempts, reason: `status ${res.status}`, delayMs });
+      await sleep(delayMs);
+    }
+  }
+
+  // One attempt, including its redirects
+  private async fetchOnce(url: string, requestHeaders: HeadersInit | undefined): Promise<HttpResult> {
+    // Looked up on each request, so that the global fetch can be replaced
+    const fetchFn = this.options.fetch ?? globalThis.fetch;
+
+    const abortController = new AbortController();
+    const timer = setTimeout(() => abortController.abort(), this.options.timeoutMs ?? 30_000);
+    const start = performance.now();
+    try {
+      for (let redirects = 0, hopUrl = url; ; redirects++) {
+        const headers = new Headers(await this.headersFor(hopUrl));
+        new Headers(requestHeaders).forEach((value, name) => headers.set(name, value));
+
+        const res = await fetchFn(hopUrl, { headers, redirect: 'manual', signal: abortController.signal });
+        const contents = new Uint8Array(await res.arrayBuffer());
+        const durationMs = Math.round(performance.now() - start);
+        const location = REDIRECT_STATUS_CODES.includes(res.status) ? res.headers.get('location') : null;
+        if (location == null) {
+          // A custom fetch function may have followed redirects itself
+          return { res, contents, url: res.url || hopUrl, durationMs };
+        }
+
+        const nextUrl = new URL(location, hopUrl).href;
+        const reason = this.options.checkRedirect?.(nextUrl);
+        if (reason != null) {
+          return { res, contents, url: hopUrl, durationMs, blockedRedirect: { url: nextUrl, reason } };
+        }
+        if (redirects === MAX_REDIRECTS) {
+          throw new Error(`too many redirects, the last to ${nextUrl}`);
+        }
+        hopUrl = nextUrl;
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private retryDelay(attempt: number, retryAfter?: string | null): number {
+    const requested = retryAfter != null ? parseRetryAfter(retryAfter) : undefined;
+    const delayMs = requested ?? (this.options.retryDelayMs ?? 500) * 2 ** (attempt - 1);
+    return Math.min(delayMs, MAX_RETRY_DELAY_MS);
+  }
+
+  private async headersFor(url: string): Promise<HeadersInit | undefined> {
+    const headers = this.options.headers;
+    return typeof headers === 'function' ? headers(url) : headers;
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string, now = Date.now()): number | undefined {
+  if (/^\s*\d+\s*$/.test(value)) {
+    return Number(value) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+class Semaphore {
+  private available: number;
+  private readonly waiting: (() => void)[] = [];
+  constructor(count: number) {
+    this.available = count;
+  }
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.available > 0) {
+      this.available--;
+    } else {
+      // The slot is handed over directly by release()
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    try {
+      return await fn();
+    } finally {
+      this.release();
+    }
+  }
+
+  private release() {
+    const next = this.waiting.shift();
+    if (next != null) {
+      next();
+    } else {
+      this.available++;
+    }
+  }
+}
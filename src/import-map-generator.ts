@@ -0,0 +1,88 @@
+import { dirname, relative, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import type { ImportMap } from './importmap-esbuild-plugin.js';
+
+export type GenerateImportMapOptions = {
+  // Add scopes for importers whose specifiers resolved differently from
+  // the top-level entry
+  scopes?: boolean;
+  // Add integrity hashes for HTTP(S) modules
+  integrity?: boolean;
+};
+
+// Collects how specifiers were resolved during a build, and describes that
+// as an import map
+export class ImportMapGenerator {
+  // Specifier -> resolved URL -> URLs of the importers it was resolved for
+  private readonly resolutions = new Map<string, Map<string, Set<string>>>();
+  private readonly integrity = new Map<string, string>();
+
+  record(specifier: string, importerUrl: string | undefined, resolvedUrl: string) {
+    let byUrl = this.resolutions.get(specifier);
+    if (byUrl == null) {
+      byUrl = new Map();
+      this.resolutions.set(specifier, byUrl);
+    }
+    let importers = byUrl.get(resolvedUrl);
+    if (importers == null) {
+      importers = new Set();
+      byUrl.set(resolvedUrl, importers);
+    }
+    if (importerUrl != null) {
+      importers.add(importerUrl);
+    }
+  }
+
+  recordIntegrity(url: string, integrity: string) {
+    this.integrity.set(url, integrity);
+  }
+
+  // Local files are written as URLs relative to the import map's own URL,
+  // so that they resolve against wherever the import map is served from
+  generate(importMapUrl: string, options: GenerateImportMapOptions = {}): ImportMap {
+    const toUrl = (url: string) => url.startsWith('file:') ? toRelativeUrl(url, importMapUrl) : url;
+
+    const imports: Record<string, string> = {};
+    const scopes: Record<string, Record<string, string>> = {};
+    for (const [specifier, byUrl] of sortedEntries(this.resolutions)) {
+      // The URL most importers resolved the specifier to goes to the
+      // top level. Importers that resolved it to other URLs get scopes.
+      const [topLevel, ...others] = [...byUrl].sort(([, a], [, b]) => b.size - a.size);
+      imports[toUrl(specifier)] = toUrl(topLevel[0]);
+      if (options.scopes) {
+        for (const [resolvedUrl, importers] of others) {
+          for (const importer of importers) {
+            (scopes[toUrl(importer)] ??= {})[toUrl(specifier)] = toUrl(resolvedUrl);
+          }
+        }
+      }
+    }
+
+    const importMap: ImportMap = { imports };
+    if (options.scopes && Object.keys(scopes).length > 0) {
+      importMap.scopes = Object.fromEntries(sortedEntries(scopes).map(
+        ([prefix, scope]) => [prefix, Object.fromEntries(sortedEntries(scope))]
+      ));
+    }
+    if (options.integrity && this.integrity.size > 0) {
+      importMap.integrity = Object.fromEntries(sortedEntries(this.integrity));
+    }
+    return importMap;
+  }
+}
+
+// Makes a file: URL relative to the URL of an import map file
+export function toRelativeUrl(fileUrl: string, importMapUrl: string): string {
+  const from = dirname(fileURLToPath(importMapUrl));
+  let path = relative(from, fileURLToPath(fileUrl)).split(sep).join('/');
+  if (fileUrl.endsWith('/') && !path.endsWith('/')) {
+    path += '/';
+  }
+  return path.startsWith('../') ? path : './' + path;
+}
+
+function sortedEntries<T>(entries: Map<string, T> | Record<string, T>): [string, T][] {
+  const list = entries instanceof Map ? [...entries] : Object.entries(entries);
+  return list.sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
+}
@@ -0,0 +1,423 @@
+import { isAbsolute } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import type { ImportMap } from './importmap-esbuild-plugin.js';
+
+export type ImportMapResolverOptions = {
+  // URL that relative keys and targets resolve against, and that
+  // specifiers resolve against when resolve() is called without a referrer
+  baseUrl: string | URL;
+  // Called for each invalid entry, which is ignored or blocks its key
+  onWarning?: (message: string) => void;
+  // Parses the import map the way importmap-esbuild-plugin does, rather than
+  // as browsers do: bare targets (e.g. "preact/compat") are kept, and
+  // resolve() returns them as they are. Prefix keys whose target doesn't
+  // end in "/" throw a TypeError, as they fail the build.
+  pluginCompatible?: boolean;
+};
+
+export type ImportMapResolver = {
+  // Resolves a specifier imported by the module at referrer (default:
+  // baseUrl) to a URL, as a browser would. Throws a TypeError if the
+  // specifier is blocked by the import map, or is a bare specifier that
+  // the import map doesn't map.
+  resolve(specifier: string, referrer?: string | URL): string;
+  // Warnings for invalid entries of the import map
+  readonly warnings: string[];
+};
+
+// Creates a resolver that follows the HTML spec's import map parsing and
+// resolution, for use outside of esbuild (e.g. in linters or loader hooks)
+export function createImportMapResolver(
+  importMap: ImportMap | string,
+  options: ImportMapResolverOptions,
+): ImportMapResolver {
+  const baseUrl = new URL(options.baseUrl).href;
+  const warnings: string[] = [];
+  const value = typeof importMap === 'string' ? JSON.parse(importMap) as unknown : importMap;
+  const parsed = parseImportMap(value, baseUrl, 'importMap', {
+    allowBareTargets: options.pluginCompatible,
+    onWarning(warning) {
+      if (options.pluginCompatible && warning.code === 'prefix-target') {
+        throw new TypeError(warning.message);
+      }
+      warnings.push(warning.message);
+      options.onWarning?.(warning.message);
+    },
+  });
+
+  return {
+    resolve(specifier: string, referrer?: string | URL): string {
+      const referrerUrl = referrer != null ? new URL(referrer).href : baseUrl;
+      const asUrl = parseUrlLikeSpecifier(specifier, referrerUrl);
+      const normalized = asUrl ?? specifier;
+
+      const match = matchImportMap(parsed, normalized, referrerUrl);
+      if (match != null) {
+        if (match.target == null) {
+          throw new TypeError(`Specifier "${specifier}" is blocked by the import map entry "${match.key}".`);
+        }
+        return match.target;
+      }
+      if (asUrl != null) {
+        return asUrl;
+      }
+      throw new TypeError(`Bare specifier "${specifier}" is not mapped by the import map.`);
+    },
+    warnings,
+  };
+}
+
+// An import map with its keys, scope prefixes and URL-like targets
+// normalized to absolute URLs. Each entry remembers the import map it came
+// from, for messages.
+export type ParsedImportMap = {
+  imports: SpecifierMap;
+  // Sorted in descending code unit order (per spec), so that the most
+  // specific scope is tried first
+  scopes: { prefix: string, map: SpecifierMap }[];
+  integrity: Map<string, { integrity: string, source: string }>;
+  hasUrlLikeKeys: boolean;
+};
+
+export type SpecifierMap = {
+  entries: Map<string, SpecifierMapEntry>;
+  prefixKeys: string[];
+  hasUrlLikeKeys: boolean;
+};
+
+// A null target blocks its key. The import map can map a key to null, and
+// per spec, entries with invalid targets become null too.
+export type SpecifierMapEntry = {
+  target: string | null;
+  source: string;
+  // JSON path of the entry as written, e.g. ["scopes", "./legacy/", "react"]
+  path: string[];
+};
+
+export type SpecifierMatch = {
+  key: string;
+  // Target for the specifier, or null if the entry blocks it
+  target: string | null;
+  isPrefix: boolean;
+  // Target of the matching entry, which for a prefix match is the prefix
+  // the target starts with
+  entryTarget: string | null;
+  // Scope the entry is in, or undefined for the top-level imports
+  scopePrefix?: string;
+};
+
+// A problem with an import map. 'invalid-field' is a structural error,
+// and the others are warnings for entries that are ignored or block their key.
+export type ImportMapWarning = {
+  // 'prefix-target' is a prefix key with a target that doesn't end in "/"
+  code:
+    | 'invalid-field'
+    | 'unknown-field'
+    | 'invalid-key'
+    | 'invalid-target'
+    | 'prefix-target'
+    | 'invalid-scope'
+    | 'invalid-integrity';
+  message: string;
+  // JSON path of the field or entry, e.g. ["scopes", "/legacy/", "react"]
+  path: string[];
+};
+
+export type ParseImportMapOptions = {
+  // Keep targets that are bare specifiers (e.g. "react": "preact/compat"),
+  // which the spec doesn't allow, as they are
+  allowBareTargets?: boolean;
+  onWarning?: (warning: ImportMapWarning) => void;
+  // Structural errors throw a TypeError, unless this is set. Then they are
+  // reported, and the invalid field is ignored.
+  onError?: (error: ImportMapWarning) => void;
+};
+
+const TOP_LEVEL_FIELDS = ['imports', 'scopes', 'integrity'];
+
+export function emptyParsedImportMap(): ParsedImportMap {
+  return toParsedImportMap(toSpecifierMap(new Map()), new Map(), new Map());
+}
+
+// Parses an import map per spec. Structural errors (e.g. "imports" not being
+// an object) throw, or go to onError, while invalid entries are reported as
+// warnings.
+export function parseImportMap(
+  importMap: unknown,
+  baseUrl: string,
+  source: string,
+  options: ParseImportMapOptions = {},
+): ParsedImportMap {
+  const structuralError = (message: string, path: string[]) => {
+    if (options.onError == null) {
+      throw new TypeError(message);
+    }
+    options.onError({ code: 'invalid-field', message, path });
+  };
+
+  if (!isObject(importMap)) {
+    structuralError(`Import map in ${source} must be a JSON object.`, []);
+    return emptyParsedImportMap();
+  }
+  const fields: Record<string, Record<string, unknown>> = {};
+  for (const [field, value] of Object.entries(importMap)) {
+    if (!TOP_LEVEL_FIELDS.includes(field)) {
+      options.onWarning?.({
+        code: 'unknown-field',
+        message: `import map field "${field}" is not supported and is ignored (in ${source}).`,
+        path: [field],
+      });
+    } else if (value !== undefined && !isObject(value)) {
+      structuralError(`"${field}" in the import map in ${source} must be a JSON object.`, [field]);
+    } else {
+      fields[field] = value ?? {};
+    }
+  }
+
+  const imports = parseSpecifierMap(fields.imports ?? {}, baseUrl, source, ['imports'], options);
+
+  const scopes = new Map<string, SpecifierMap>();
+  for (const [prefix, scopeImports] of Object.entries(fields.scopes ?? {})) {
+    const path = ['scopes', prefix];
+    if (!isObject(scopeImports)) {
+      structuralError(`Scope "${prefix}" in the import map in ${source} must be a JSON object.`, path);
+      continue;
+    }
+    if (!URL.canParse(prefix, baseUrl)) {
+      options.onWarning?.({
+        code: 'invalid-scope',
+        message: `import map scope "${prefix}" is not a valid URL and is ignored (in ${source}).`,
+        path,
+      });
+      continue;
+    }
+    scopes.set(new URL(prefix, baseUrl).href, parseSpecifierMap(scopeImports, baseUrl, source, path, options));
+  }
+
+  const integrity = new Map<string, { integrity: string, source: string }>();
+  for (const [key, value] of Object.entries(fields.integrity ?? {})) {
+    const url = parseUrlLikeSpecifier(key, baseUrl);
+    if (url == null || typeof value !== 'string') {
+      options.onWarning?.({
+        code: 'invalid-integrity',
+        message: `import map integrity entry "${key}" is invalid and is ignored (in ${source}).`,
+        path: ['integrity', key],
+      });
+      continue;
+    }
+    integrity.set(url, { integrity: value, source });
+  }
+
+  return toParsedImportMap(imports, scopes, integrity);
+}
+
+function toParsedImportMap(
+  imports: SpecifierMap,
+  scopes: Map<string, SpecifierMap>,
+  integrity: ParsedImportMap['integrity'],
+): ParsedImportMap {
+  const sortedScopes = [...scopes]
+    .map(([prefix, map]) => ({ prefix, map }))
+    .sort((a, b) => a.prefix < b.prefix ? 1 : a.prefix > b.prefix ? -1 : 0);
+
+  const hasUrlLikeKeys = [imports, ...sortedScopes.map(scope => scope.map)]
+    .some(map => map.hasUrlLikeKeys);
+
+  return { imports, scopes: sortedScopes, integrity, hasUrlLikeKeys };
+}
+
+function parseSpecifierMap(
+  imports: Record<string, unknown>,
+  baseUrl: string,
+  source: string,
+  mapPath: string[],
+  options: ParseImportMapOptions,
+): SpecifierMap {
+  const where = mapPath[0] === 'scopes' ? ` in scope "${mapPath[1]}"` : '';
+  const entries = new Map<string, SpecifierMapEntry>();
+  for (const [key, value] of Object.entries(imports)) {
+    const path = [...mapPath, key];
+    if (key === '') {
+      options.onWarning?.({
+        code: 'invalid-key',
+        message: `import map key ""${where} is invalid and is ignored (in ${source}).`,
+        path,
+      });
+      continue;
+    }
+    const normalizedKey = parseUrlLikeSpecifier(key, baseUrl) ?? key;
+
+    if (value === null) {
+      entries.set(normalizedKey, { target: null, source, path });
+      continue;
+    }
+    const target = typeof value === 'string' ? normalizeTarget(value, baseUrl, options) : undefined;
+    if (target == null) {
+      options.onWarning?.({
+        code: 'invalid-target',
+        message: `import map entry "${key}"${where} has an invalid target ${JSON.stringify(value)}, ` +
+          `so it blocks "${key}" (in ${source}).`,
+        path,
+      });
+      entries.set(normalizedKey, { target: null, source, path });
+      continue;
+    }
+    if (key.endsWith('/') && !target.endsWith('/')) {
+      options.onWarning?.({
+        code: 'prefix-target',
+        message: `import map prefix key "${key}" must map to a value ending with "/". ` +
+          `Got "${value}" (in ${source}).`,
+        path,
+      });
+      entries.set(normalizedKey, { target: null, source, path });
+      continue;
+    }
+    entries.set(normalizedKey, { target, source, path });
+  }
+  return toSpecifierMap(entries);
+}
+
+function toSpecifierMap(entries: Map<string, SpecifierMapEntry>): SpecifierMap {
+  const prefixKeys = [...entries.keys()]
+    .filter(k => k.endsWith('/'))
+    .sort((a, b) => b.length - a.length); // longest first
+  // Normalized URL-like keys are absolute URLs, bare ones never parse as URLs
+  const hasUrlLikeKeys = [...entries.keys()].some(k => URL.canParse(k));
+  return { entries, prefixKeys, hasUrlLikeKeys };
+}
+
+// Merges a new import map into an existing one, following the HTML spec's
+// "merge existing and new import maps": rules in the existing import map
+// win, and conflicting rules in the new one are ignored and reported.
+export function mergeImportMaps(oldMap: ParsedImportMap, newMap: ParsedImportMap, conflicts: string[]): ParsedImportMap {
+  const scopes = new Map(oldMap.scopes.map(scope => [scope.prefix, scope.map]));
+  for (const scope of newMap.scopes) {
+    const existing = scopes.get(scope.prefix);
+    scopes.set(
+      scope.prefix,
+      existing != null ? mergeSpecifierMaps(existing, scope.map, conflicts, ` in scope "${scope.prefix}"`) : scope.map,
+    );
+  }
+
+  const integrity = new Map(oldMap.integrity);
+  for (const [url, entry] of newMap.integrity) {
+    const existing = integrity.get(url);
+    if (existing != null) {
+      conflicts.push(
+        `Import map conflict: integrity for "${url}" from ${entry.source} is ignored, ` +
+        `as ${existing.source} already sets it to "${existing.integrity}".`
+      );
+      continue;
+    }
+    integrity.set(url, entry);
+  }
+
+  const imports = mergeSpecifierMaps(oldMap.imports, newMap.imports, conflicts, '');
+
+  return toParsedImportMap(imports, scopes, integrity);
+}
+
+function mergeSpecifierMaps(oldMap: SpecifierMap, newMap: SpecifierMap, conflicts: string[], where: string): SpecifierMap {
+  const entries = new Map(oldMap.entries);
+  for (const [key, entry] of newMap.entries) {
+    const existing = entries.get(key);
+    if (existing != null) {
+      conflicts.push(
+        `Import map conflict: "${key}"${where} from ${entry.source} is ignored, ` +
+        `as ${existing.source} already maps it to ${JSON.stringify(existing.target)}.`
+      );
+      continue;
+    }
+    entries.set(key, entry);
+  }
+  return toSpecifierMap(entries);
+}
+
+// URL-like targets are resolved to absolute URLs against the import map's
+// base URL (per spec). Other targets are kept as they are if bare targets
+// are allowed, and are invalid (undefined) otherwise.
+function normalizeTarget(target: string, baseUrl: string, options: ParseImportMapOptions): string | undefined {
+  if (isAbsolute(target) && !target.startsWith('/')) {
+    // Windows absolute path
+    return pathToFileURL(target).href;
+  }
+  const url = parseUrlLikeSpecifier(target, baseUrl);
+  if (url != null) {
+    return url;
+  }
+  // e.g. "https://[bad", which is meant as a URL rather than a bare specifier
+  if (/^[a-zA-Z][a-zA-Z0-9+.-]*:\/\//.test(target)) {
+    return undefined;
+  }
+  return options.allowBareTargets && target !== '' ? target : undefined;
+}
+
+// Per spec, a specifier is URL-like if it starts with "/", "./" or "../",
+// or if it parses as an absolute URL. Returns undefined for bare specifiers,
+// and for relative specifiers when there is no base URL.
+export function parseUrlLikeSpecifier(spec: string, baseUrl: string | undefined): string | undefined {
+  if (/^\.{0,2}\//.test(spec)) {
+    return baseUrl != null ? new URL(spec, baseUrl).href : undefined;
+  }
+  return URL.canParse(spec) ? new URL(spec).href : undefined;
+}
+
+// Matches a normalized specifier against the scopes that match the
+// importer, most specific first, then against the top-level imports
+export function matchImportMap(
+  importMap: ParsedImportMap,
+  spec: string,
+  importerUrl: string | undefined,
+): SpecifierMatch | undefined {
+  if (importerUrl != null) {
+    for (const scope of importMap.scopes) {
+      if (
+        scope.prefix === importerUrl ||
+        (scope.prefix.endsWith('/') && importerUrl.startsWith(scope.prefix))
+      ) {
+        const match = matchSpecifier(spec, scope.map);
+        if (match != null) {
+          return { ...match, scopePrefix: scope.prefix };
+        }
+      }
+    }
+  }
+  return matchSpecifier(spec, importMap.imports);
+}
+
+function matchSpecifier(spec: string, map: SpecifierMap): SpecifierMatch | undefined {
+  // ---- 1. Exact match ----
+  const exact = map.entries.get(spec);
+  if (exact != null) {
+    return { key: spec, target: exact.target, isPrefix: false, entryTarget: exact.target };
+  }
+
+  // ---- 2. Prefix match ("pkg/" style mappings) ----
+  for (const key of map.prefixKeys) {
+    if (spec.startsWith(key)) {
+      const prefixTarget = map.entries.get(key)!.target;
+      if (prefixTarget == null) {
+        return { key, target: null, isPrefix: true, entryTarget: null };
+      }
+
+      const remainder = spec.slice(key.length);
+      if (!URL.canParse(prefixTarget)) {
+        return { key, target: prefixTarget + remainder, isPrefix: true, entryTarget: prefixTarget };
+      }
+
+      // Per spec, the remainder may not backtrack above the target
+      const target = new URL(remainder, prefixTarget).href;
+      if (!target.startsWith(prefixTarget)) {
+        throw new TypeError(`Specifier "${spec}" backtracks above its import map prefix "${key}".`);
+      }
+      return { key, target, isPrefix: true, entryTarget: prefixTarget };
+    }
+  }
+
+  return undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,200 @@
+import { readFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+import { HttpClient } from './http-client.js';
+import type { ImportMap } from './importmap-esbuild-plugin.js';
+
+export type LoadedImportMap = {
+  importMap: ImportMap;
+  // URL that relative keys and targets in the import map resolve against,
+  // i.e., the URL of the file or document the import map came from
+  baseUrl: string;
+  // Local files that were read, for watch mode
+  watchFiles: string[];
+  // Local file the import map is in, and its text, for pointing at
+  // problems in it
+  file?: { path: string, text: string };
+};
+
+// Loads an import map from a local file, which may be an import map JSON
+// file, a deno.json / deno.jsonc file, or an HTML document containing a
+// <script type="importmap"> element.
+export async function loadImportMapFile(path: string, client = new HttpClient()): Promise<LoadedImportMap> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (err) {
+    throw new Error(`Could not read import map file ${path}: ${(err as Error).message}`, { cause: err });
+  }
+
+  const baseUrl = pathToFileURL(path).href;
+  const fileName = basename(path);
+  const isHtml = /^\.html?$/i.test(extname(fileName));
+  const isDenoConfig = /^deno\.jsonc?$/i.test(fileName);
+
+  const doc = parseImportMapDocument(text, path, { isHtml, isDenoConfig });
+
+  // deno.json may point at a separate import map instead of containing one
+  if (isDenoConfig && doc.importMapRef != null) {
+    const ref = new URL(doc.importMapRef, baseUrl);
+    const loaded = ref.protocol === 'file:'
+      ? await loadImportMapFile(fileURLToPath(ref), client)
+      : await loadImportMapUrl(ref.href, client);
+    return { ...loaded, watchFiles: [path, ...loaded.watchFiles] };
+  }
+
+  return { importMap: doc.importMap, baseUrl, watchFiles: [path], file: { path, text } };
+}
+
+// Loads an import map over HTTP(S), as either import map JSON or an HTML
+// document containing a <script type="importmap"> element.
+export async function loadImportMapUrl(url: string, client = new HttpClient()): Promise<LoadedImportMap> {
+  let res: Response;
+  let baseUrl: string;
+  let text: string;
+  try {
+    let contents: Uint8Array;
+    let blockedRedirect: { url: string, reason: string } | undefined;
+    ({ res, contents, url: baseUrl, blockedRedirect } = await client.get(url));
+    if (blockedRedirect != null) {
+      throw new Error(`redirected to ${blockedRedirect.url}, which ${blockedRedirect.reason}`);
+    }
+    if (!res.ok) {
+      throw new Error(`GET ${url} failed: status ${res.status}`);
+    }
+    text = new TextDecoder().decode(contents);
+  } catch (err) {
+    throw new Error(`Could not fetch import map ${url}: ${(err as Error).message}`, { cause: err });
+  }
+
+  // Per spec, relative URLs resolve against the final URL after redirects
+  const contentType = res.headers.get('content-type')?.split(';')[0].trim().toLowerCase();
+  const isHtml = contentType === 'text/html' || /\.html?$/i.test(new URL(baseUrl).pathname);
+
+  const doc = parseImportMapDocument(text, url, { isHtml, isDenoConfig: false });
+  return { importMap: doc.importMap, baseUrl, watchFiles: [] };
+}
+
+type ImportMapDocument = {
+  importMap: ImportMap;
+  // deno.json "importMap" field
+  importMapRef?: string;
+};
+
+function parseImportMapDocument(
+  text: string,
+  location: string,
+  options: { isHtml: boolean, isDenoConfig: boolean },
+): ImportMapDocument {
+  let json: string;
+  if (options.isHtml) {
+    const scripts = extractImportMapScripts(text);
+    if (scripts.length === 0) {
+      throw new Error(`No <script type="importmap"> element found in ${location}.`);
+    }
+    if (scripts.length > 1) {
+      throw new Error(`Found ${scripts.length} <script type="importmap"> elements in ${location}, only one is supported.`);
+    }
+    json = scripts[0];
+  } else {
+    // deno.json(c) may contain comments and trailing commas
+    json = options.isDenoConfig ? stripJsonComments(text) : text;
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (err) {
+    throw new Error(`Could not parse import map in ${location}: ${(err as Error).message}`, { cause: err });
+  }
+  if (value == null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Import map in ${location} must be a JSON object.`);
+  }
+
+  // Import map files are taken as they are, so that unknown fields are
+  // reported. Only pick up import map fields from deno.json, as it contains
+  // unrelated configuration too.
+  const obj = value as Record<string, unknown>;
+  if (!options.isDenoConfig) {
+    return { importMap: obj as ImportMap };
+  }
+  const importMap: ImportMap = {};
+  if (obj.imports !== undefined) {
+    importMap.imports = obj.imports as ImportMap['imports'];
+  }
+  if (obj.scopes !== undefined) {
+    importMap.scopes = obj.scopes as ImportMap['scopes'];
+  }
+  if (obj.integrity !== undefined) {
+    importMap.integrity = obj.integrity as ImportMap['integrity'];
+  }
+
+  const importMapRef =
+    typeof obj.importMap === 'string' && importMap.imports == null && importMap.scopes == null
+      ? obj.importMap
+      : undefined;
+
+  return { importMap, importMapRef };
+}
+
+// Returns the contents of each <script type="importmap"> element
+function extractImportMapScripts(html: string): string[] {
+  const withoutComments = html.replace(/<!--[\s\S]*?-->/g, '');
+  const results: string[] = [];
+  for (const match of withoutComments.matchAll(/<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi)) {
+    const type = /\btype\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i.exec(match[1]);
+    const typeValue = type?.[1] ?? type?.[2] ?? type?.[3];
+    if (typeValue?.trim().toLowerCase() === 'importmap') {
+      results.push(match[2]);
+    }
+  }
+  return results;
+}
+
+// Removes comments and trailing commas from JSONC text, leaving strings alone
+function stripJsonComments(text: string): string {
+  let result = '';
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '"') {
+      const start = i++;
+      while (i < text.length && text[i] !== '"') {
+        i += text[i] === '\\' ? 2 : 1;
+      }
+      result += text.slice(start, ++i);
+    } else if (ch === '/' && (text[i + 1] === '/' || text[i + 1] === '*')) {
+      i = skipComment(text, i);
+    } else if (ch === ',' && /[}\]]/.test(text[skipWhitespaceAndComments(text, i + 1)] ?? '')) {
+      // Trailing comma
+      i++;
+    } else {
+      result += ch;
+      i++;
+    }
+  }
+  return result;
+}
+
+function skipComment(text: string, i: number): number {
+  if (text[i + 1] === '/') {
+    const end = text.indexOf('\n', i + 2);
+    return end === -1 ? text.length : end;
+  }
+  const end = text.indexOf('*/', i + 2);
+  return end === -1 ? text.length : end + 2;
+}
+
+function skipWhitespaceAndComments(text: string, i: number): number {
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+    } else if (text[i] === '/' && (text[i + 1] === '/' || text[i + 1] === '*')) {
+      i = skipComment(text, i);
+    } else {
+      break;
+    }
+  }
+  return i;
+}
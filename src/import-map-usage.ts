@@ -0,0 +1,31 @@
+import type { ImportMapEntryRef } from './log-events.js';
+
+// Which import map entries are used across several builds, e.g. the apps of
+// a monorepo that share an import map. Pass the same instance as the usage
+// option of each build's plugin, then check unusedEntries() after the builds.
+export class ImportMapUsage {
+  // Scope prefix and key -> the entry, and whether any build matched it
+  private readonly entries = new Map<string, { entry: ImportMapEntryRef, used: boolean }>();
+
+  // Called by the plugin at the end of each successful build, for each entry
+  // of the build's import map
+  record(entry: ImportMapEntryRef, used: boolean) {
+    const id = `${entry.scope ?? ''}\0${entry.key}`;
+    const recorded = this.entries.get(id);
+    if (recorded == null) {
+      this.entries.set(id, { entry, used });
+    } else {
+      recorded.used ||= used;
+    }
+  }
+
+  // Entries that no recorded build matched
+  unusedEntries(): ImportMapEntryRef[] {
+    return [...this.entries.values()].filter(({ used }) => !used).map(({ entry }) => entry);
+  }
+
+  // Entries that at least one recorded build matched
+  usedEntries(): ImportMapEntryRef[] {
+    return [...this.entries.values()].filter(({ used }) => used).map(({ entry }) => entry);
+  }
+}
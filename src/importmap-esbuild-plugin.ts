@@ -1,21 +1,93 @@
-import { isAbsolute, resolve } from 'node:path';
-import type { Loader, OnResolveResult, Plugin } from 'esbuild';
+import { isAbsolute, resolve, sep } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import type { ImportKind, Loader, OnResolveArgs, OnResolveResult, PartialMessage, Plugin } from 'esbuild';
+
+import { BuildReport, importMapEntries } from './build-report.js';
+import { HostPolicy } from './host-policy.js';
+import { HttpCache } from './http-cache.js';
+import { type FetchFunction, HttpClient, type RequestHeaders } from './http-client.js';
+import { type GenerateImportMapOptions, ImportMapGenerator, toRelativeUrl } from './import-map-generator.js';
+import {
+  emptyParsedImportMap,
+  type ImportMapWarning,
+  matchImportMap,
+  mergeImportMaps,
+  type ParsedImportMap,
+  parseImportMap,
+  parseUrlLikeSpecifier,
+  type SpecifierMatch,
+} from './import-map-resolver.js';
+import { type LoadedImportMap, loadImportMapFile, loadImportMapUrl } from './import-map-source.js';
+import type { ImportMapUsage } from './import-map-usage.js';
+import { checkIntegrity, computeIntegrity } from './integrity.js';
+import { findJsonLocation } from './json-location.js';
+import { Lockfile } from './lockfile.js';
+import { formatLogEvent, type ImportMapEntryRef, type ImportMapLogEvent } from './log-events.js';
+import { emitOutputFile } from './output-file.js';
 
 const PLUGIN_NAME = 'importmap-esbuild-plugin';
 
+// Marks resolutions started by this plugin, which the import map must not
+// be applied to again
+const SKIP_IMPORT_MAP = 'importMapEsbuildPlugin.skip';
+
 export interface ImportMap {
-  imports?: Record<string, string>;
+  // A null value blocks the specifier
+  imports?: Record<string, string | null>;
+  scopes?: Record<string, Record<string, string | null>>;
+  integrity?: Record<string, string>;
 }
 
+// An import map, given inline or as a file or URL to load it from
+export type ImportMapSource =
+  | ImportMap
+  | { path: string }
+  | { url: string };
+
 export interface ImportMapEsbuildPluginParams {
-  importMap?: ImportMap;
+  importMap?: ImportMap | ImportMapSource[];
+  importMapPath?: string;
+  importMapUrl?: string;
+  reportConflicts?: 'log' | 'warning';
   baseDir?: string;
+  resolveLocalTargets?: boolean;
+  onEvent?: (event: ImportMapLogEvent) => void;
   onLog?: (message: string) => void;
   timeoutMs?: number;
+  fetch?: FetchFunction;
+  headers?: RequestHeaders;
+  retries?: number;
+  retryDelayMs?: number;
+  maxConcurrentFetches?: number;
   loaderResolver?: LoaderResolver;
   enableHttp?: boolean;
+  allowUrlImports?: boolean;
+  allowedHosts?: string[];
+  deniedHosts?: string[];
+  remoteBareSpecifiers?: RemoteBareSpecifiers;
+  cache?: string;
+  cacheTtl?: number;
+  offline?: boolean;
+  lockfile?: string;
+  frozenLockfile?: boolean;
+  external?: boolean | string[];
+  externalSpecifier?: 'original' | 'url';
+  externalImportMap?: string;
+  generateImportMap?: string | ({ path: string } & GenerateImportMapOptions);
+  reportUnused?: 'warning' | 'error';
+  usage?: ImportMapUsage;
 }
 
+// How to resolve bare specifiers imported by HTTP(S) modules that the import
+// map doesn't map:
+// - 'error': fail the build (default)
+// - 'node_modules': resolve them from node_modules in the base directory
+// - { cdn }: fetch them from a CDN, e.g. { cdn: 'https://esm.sh/{name}' }.
+//   {name} is replaced by the package name, and {path} by the subpath
+//   (e.g. "/hooks" for "preact/hooks"), which is appended if there is no
+//   {path} in the template.
+export type RemoteBareSpecifiers = 'error' | 'node_modules' | { cdn: string };
+
 export type LoaderResolver = (
   args: { path: string, namespace: string, with: Record<string, string>, },
   res: Response,
@@ -24,22 +96,95 @@ export type LoaderResolver = (
 export type LoaderResolverResult = Loader | null | undefined;
 
 export function importMapEsbuildPlugin(params?: ImportMapEsbuildPluginParams): Plugin {
-  const imports = params?.importMap?.imports ?? {};
   const namespace = '_http_url';
-  const timeoutMs = params?.timeoutMs ?? 30_000;
+  // Modules inlined in the import map as data: URLs
+  const dataNamespace = '_data_url';
+
+  // Events go to onEvent, to onLog as text, and into the current build's report
+  let report = new BuildReport();
+  const emit = (event: ImportMapLogEvent) => {
+    report.add(event);
+    params?.onEvent?.(event);
+    params?.onLog?.(formatLogEvent(event));
+  };
+  const log = (message: string) => emit({ type: 'info', message });
+
+  let hostPolicy: HostPolicy | undefined;
+  if (params?.allowedHosts != null || params?.deniedHosts != null) {
+    try {
+      hostPolicy = new HostPolicy({ allowedHosts: params.allowedHosts, deniedHosts: params.deniedHosts });
+    } catch (err) {
+      throw new Error(`${PLUGIN_NAME}: ${(err as Error).message}`, { cause: err });
+    }
+  }
+  let client: HttpClient;
+  try {
+    client = new HttpClient({
+      fetch: params?.fetch,
+      headers: params?.headers,
+      timeoutMs: params?.timeoutMs,
+      retries: params?.retries,
+      retryDelayMs: params?.retryDelayMs,
+      maxConcurrentFetches: params?.maxConcurrentFetches,
+      // Redirects are checked before they are followed, so that forbidden
+      // hosts never receive a request
+      checkRedirect: hostPolicy != null ? url => hostPolicy.check(url) : undefined,
+      onEvent: emit,
+    });
+  } catch (err) {
+    throw new Error(`${PLUGIN_NAME}: ${(err as Error).message}`, { cause: err });
+  }
   const loaderResolver = params?.loaderResolver;
   const enableHttp = params?.enableHttp ?? false;
-  validatePrefixMappings(imports);
-  const prefixKeys = Object.keys(imports)
-    .filter(k => k.endsWith('/'))
-    .sort((a, b) => b.length - a.length); // longest first
+  const resolveLocalTargets = params?.resolveLocalTargets ?? true;
+  const remoteBareSpecifiers = params?.remoteBareSpecifiers ?? 'error';
+  const allowUrlImports = params?.allowUrlImports ?? false;
+  if (allowUrlImports && !enableHttp) {
+    throw new Error(
+      `${PLUGIN_NAME}: allowUrlImports: true requires enableHttp: true.`
+    );
+  }
+  // Cached entries are reused without revalidation for this long (ms). By
+  // default, they are revalidated on every build.
+  const cacheTtl = params?.cacheTtl ?? 0;
+  const offline = params?.offline ?? false;
+  if (offline && params?.cache == null) {
+    throw new Error(
+      `${PLUGIN_NAME}: offline: true requires a cache directory to be set with the cache option.`
+    );
+  }
+  const frozenLockfile = params?.frozenLockfile ?? false;
+  if (frozenLockfile && params?.lockfile == null) {
+    throw new Error(
+      `${PLUGIN_NAME}: frozenLockfile: true requires a lockfile path to be set with the lockfile option.`
+    );
+  }
+  const importMapSources = [params?.importMap, params?.importMapPath, params?.importMapUrl]
+    .filter(source => source != null);
+  if (importMapSources.length > 1) {
+    throw new Error(
+      `${PLUGIN_NAME}: only one of importMap, importMapPath and importMapUrl may be set.`
+    );
+  }
+  const sources: ImportMapSource[] =
+    Array.isArray(params?.importMap) ? params.importMap :
+    params?.importMap != null ? [params.importMap] :
+    params?.importMapPath != null ? [{ path: params.importMapPath }] :
+    params?.importMapUrl != null ? [{ url: params.importMapUrl }] :
+    [];
 
   // Simple bare-specifier test (per spec definition)
   const bareSpecifier = /^[a-zA-Z0-9@][a-zA-Z0-9\-._@/]*$/;
 
+  // Relative, absolute-path and full-URL specifiers
+  const urlLikeSpecifier = /^(?:\.{0,2}\/|[a-zA-Z][a-zA-Z0-9+.-]*:)/;
+
   // Keep a map of resolved paths in case modules redirect
   const pathToResolvedUrl = new Map<string, string>();
 
+  // First importer of each http(s) module, for reporting import chains
+  const httpImporters = new Map<string, string>();
+
   return {
     name: "import-map",
     setup(build) {
@@ -48,68 +193,592 @@ export function importMapEsbuildPlugin(params?: ImportMapEsbuildPluginParams): P
         build.initialOptions.absWorkingDir ??
         process.cwd();
 
-      build.onResolve({ filter: bareSpecifier }, (args) => {
-        const spec = args.path;
+      // An inline import map is relative to the base directory. An import
+      // map loaded from a file or URL is relative to that file or URL.
+      const baseUrl = pathToFileURL(baseDir.endsWith(sep) ? baseDir : baseDir + sep).href;
+      const sourceLoaders = sources.map((source, index) =>
+        createSourceLoader(source, sources.length > 1 ? index : undefined, baseDir, baseUrl, client)
+      );
+      const hasFileSources = !sources.every(isInlineImportMap);
+
+      // Import maps are (re)loaded and merged at the start of each build, so
+      // that watch mode picks up edits to import map files. Per spec, earlier
+      // import maps win, and conflicting rules from later ones are ignored.
+      let importMap = emptyParsedImportMap();
+      let importMapWatchFiles: string[] = [];
+      let loadedSources: LoadedImportMapSource[] = [];
+      build.onStart(async () => {
+        // Reset here, as esbuild runs onStart callbacks concurrently, and
+        // loading the import maps already reports events
+        report = new BuildReport();
+        const loaded = await Promise.all(sourceLoaders.map(load => load()));
+
+        // Every problem with the import maps is reported at once
+        const conflicts: string[] = [];
+        const errors: PartialMessage[] = [];
+        const warnings: PartialMessage[] = [];
+        const prefixProblems: { problem: ImportMapWarning, source: LoadedImportMapSource }[] = [];
+        let merged = emptyParsedImportMap();
+        for (const source of loaded) {
+          const parsed = parseImportMap(source.importMap, source.baseUrl, source.name, {
+            allowBareTargets: true,
+            onWarning: warning => warning.code === 'prefix-target'
+              ? prefixProblems.push({ problem: warning, source })
+              : warnings.push(importMapMessage(warning, source)),
+            onError: error => errors.push(importMapMessage(error, source)),
+          });
+          merged = mergeImportMaps(merged, parsed, conflicts);
+        }
+
+        // Prefix keys that don't map to a value ending in "/" are errors,
+        // rather than being ignored as the spec does. They are validated on
+        // the merged import map: an entry that the merge ignored is only
+        // reported as a conflict.
+        for (const { problem, source } of prefixProblems) {
+          if (hasEntryAt(merged, source.name, problem.path)) {
+            errors.push(importMapMessage(problem, source));
+          }
+        }
+
+        importMap = merged;
+        importMapWatchFiles = loaded.flatMap(source => source.watchFiles);
+        loadedSources = loaded;
 
-        // ---- 1. Exact match ----
-        if (imports[spec]) {
-          const target = imports[spec];
-          params?.onLog?.(`Exact match: ${spec} -> ${target}`);
-          return resolveTarget(target, baseDir, namespace, enableHttp);
+        if (params?.reportConflicts === 'log') {
+          for (const conflict of conflicts) {
+            log(conflict);
+          }
+        } else if (params?.reportConflicts === 'warning') {
+          warnings.push(...conflicts.map(text => ({ pluginName: PLUGIN_NAME, text })));
         }
+        return { errors, warnings };
+      });
 
-        // ---- 2. Prefix match ("pkg/" style mappings) ----
-        for (const key of prefixKeys) {
-          if (spec.startsWith(key)) {
-            const remainder = spec.slice(key.length);
-            const target = imports[key] + remainder;
-            params?.onLog?.(`Prefix match: [${key}] ${spec} -> ${target}`);
-            return resolveTarget(target, baseDir, namespace, enableHttp);
+      if (hasFileSources) {
+        // Entry points are resolved in every build, so this is where the
+        // import map's files are registered to be watched
+        build.onResolve({ filter: /.*/ }, (args) => {
+          if (args.kind !== 'entry-point' || importMapWatchFiles.length === 0) {
+            return;
           }
+          return { watchFiles: importMapWatchFiles };
+        });
+      }
+
+      // Errors of the build, its summary, and the import map entries it
+      // didn't use. Failed builds may not have resolved every import, so
+      // their usage isn't recorded.
+      build.onEnd((result) => {
+        for (const error of result.errors) {
+          emit({ type: 'error', message: error.text });
+        }
+        emit({ type: 'summary', summary: report.summarize(importMap) });
+        if (result.errors.length > 0) {
+          return;
         }
 
-        // Otherwise fall back to default esbuild resolver
+        if (params?.usage != null) {
+          for (const entry of importMapEntries(importMap)) {
+            params.usage.record(entry, report.isEntryUsed(entry.key, entry.scope));
+          }
+        }
+        if (params?.reportUnused != null) {
+          const messages = report.unusedEntries(importMap).map(entry => {
+            const source = loadedSources.find(source => source.name === entry.source)!;
+            return importMapMessage(unusedEntryProblem(entry), source);
+          });
+          return params.reportUnused === 'error' ? { errors: messages } : { warnings: messages };
+        }
         return;
       });
 
+      // Relative cache directories are resolved against the base directory
+      const cache = params?.cache != null ? new HttpCache(resolve(baseDir, params.cache)) : undefined;
+
+      // The lockfile is re-read at the start of every build (e.g., in watch
+      // mode), and written at the end of a build if new URLs were recorded
+      let lockfile: Lockfile | undefined;
+      if (params?.lockfile != null) {
+        const lockfilePath = resolve(baseDir, params.lockfile);
+        build.onStart(async () => {
+          lockfile = await Lockfile.read(lockfilePath);
+        });
+        build.onEnd(async () => {
+          if (lockfile?.isModified) {
+            await lockfile.write();
+          }
+        });
+      }
+
+      // Mapped specifiers that are left for the browser to resolve at
+      // runtime, as import map entries, for externalImportMap
+      let usedExternals: ImportMap = {};
+      if (params?.external != null) {
+        build.onStart(() => {
+          usedExternals = {};
+        });
+      }
+      const externalImportMapPath = params?.externalImportMap != null
+        ? resolve(baseDir, params.externalImportMap)
+        : undefined;
+      if (externalImportMapPath != null) {
+        build.onEnd(async (result) => {
+          if (result.errors.length > 0) {
+            return;
+          }
+          const text = JSON.stringify(sortImportMap(usedExternals), null, 2) + '\n';
+          await emitOutputFile(result, build.initialOptions.write ?? true, externalImportMapPath, text);
+        });
+      }
+
+      // How specifiers were resolved, for generateImportMap
+      let generator: ImportMapGenerator | undefined;
+      let generateIntegrity = false;
+      if (params?.generateImportMap != null) {
+        const options = typeof params.generateImportMap === 'string'
+          ? { path: params.generateImportMap }
+          : params.generateImportMap;
+        generateIntegrity = options.integrity ?? false;
+        const generatedImportMapPath = resolve(baseDir, options.path);
+        build.onStart(() => {
+          generator = new ImportMapGenerator();
+        });
+        build.onEnd(async (result) => {
+          if (result.errors.length > 0 || generator == null) {
+            return;
+          }
+          const generated = generator.generate(pathToFileURL(generatedImportMapPath).href, options);
+          const text = JSON.stringify(generated, null, 2) + '\n';
+          await emitOutputFile(result, build.initialOptions.write ?? true, generatedImportMapPath, text);
+        });
+      }
+
+      // URL that a (successful) resolve result points at
+      const resolvedUrlOf = (result: OnResolveResult): string | undefined => {
+        if (result.path == null || (result.errors?.length ?? 0) > 0) {
+          return undefined;
+        }
+        if (result.namespace === namespace || result.namespace === dataNamespace) {
+          return result.path;
+        }
+        if ((result.namespace ?? 'file') === 'file' && isAbsolute(result.path)) {
+          return pathToFileURL(result.path).href;
+        }
+        return undefined;
+      };
+
+      const isExternalMatch = (match: ResolvedMatch) =>
+        params?.external === true ? /^https?:\/\//.test(match.target) :
+        Array.isArray(params?.external) ? params.external.includes(match.key) :
+        false;
+
+      // Keeps the original specifier (or the URL it maps to) in the output,
+      // instead of bundling the module it maps to. The browser can only map
+      // the specifier the same way for top-level entries and bare specifiers
+      // in local modules: the bundle is outside of every scope, and URL-like
+      // specifiers or imports inside HTTP(S) modules would resolve against
+      // the bundle rather than their importer. Otherwise the URL is written,
+      // or, for local targets, the module is bundled (undefined).
+      const resolveExternal = (match: ResolvedMatch, args: ImporterArgs): OnResolveResult | undefined => {
+        const isUrl = /^https?:\/\//.test(match.target);
+        const keepSpecifier = match.scopePrefix == null && args.namespace === 'file' && !urlLikeSpecifier.test(args.path);
+        if (!keepSpecifier && !isUrl) {
+          return undefined;
+        }
+
+        const path = isUrl && (!keepSpecifier || params?.externalSpecifier === 'url') ? match.target : args.path;
+        if (path === args.path) {
+          // Local targets are relative to externalImportMap, as absolute
+          // file: URLs mean nothing to the browser
+          (usedExternals.imports ??= {})[match.key] = match.entryTarget.startsWith('file:') && externalImportMapPath != null
+            ? toRelativeUrl(match.entryTarget, pathToFileURL(externalImportMapPath).href)
+            : match.entryTarget;
+        }
+        log(`External: ${path}`);
+        return { path, external: true };
+      };
+
+      // URL of an importer, for matching against scopes
+      const importerToUrl = (importer: string, importerNamespace: string): string | undefined => {
+        if (importer === '') {
+          return undefined;
+        }
+        if (importerNamespace === namespace) {
+          // Match modules that were redirected by their final URL
+          return pathToResolvedUrl.get(importer) ?? importer;
+        }
+        if (importerNamespace === 'file' && isAbsolute(importer)) {
+          return pathToFileURL(importer).href;
+        }
+        return undefined;
+      };
+
+      // Bare targets (e.g., "react": "preact/compat") are resolved by esbuild
+      // from the base directory, so that node_modules, package "exports"
+      // and conditions apply. Local targets are also resolved by esbuild
+      // (unless resolveLocalTargets is false), so that resolveExtensions,
+      // index files, mainFields and tsconfig apply.
+      const resolveMappedTarget = async (target: string, args: ImporterArgs): Promise<OnResolveResult> => {
+        if (target.startsWith('data:')) {
+          return { path: target, namespace: dataNamespace };
+        }
+        if (isBareTarget(target)) {
+          return resolveWithEsbuild(target, args.kind);
+        }
+        if (resolveLocalTargets && target.startsWith('file:')) {
+          return resolveWithEsbuild(fileURLToPath(target), args.kind);
+        }
+        return resolveTarget(target, enableHttp, url => resolveHttpUrl(url, args));
+      };
+
+      // Importers leading up to a module, starting from a local file or
+      // entry point
+      const importChain = (importer: string): string[] => {
+        const chain: string[] = [];
+        while (importer !== '' && !chain.includes(importer)) {
+          chain.unshift(importer);
+          importer = httpImporters.get(importer) ?? '';
+        }
+        return chain;
+      };
+
+      const hostPolicyError = (url: string, text: string, importer: string) => {
+        const chain = [...importChain(importer), url];
+        return {
+          errors: [{
+            text: `${PLUGIN_NAME}: ${text}, so it may not be fetched.`,
+            notes: [{ text: `Import chain:\n  ${chain.join('\n  -> ')}` }],
+          }],
+        };
+      };
+
+      // All http(s) modules are resolved through here, so that the host
+      // policy applies to import map targets and to imports inside
+      // http(s) modules alike
+      const resolveHttpUrl = (url: string, args: ImporterArgs): OnResolveResult => {
+        const reason = hostPolicy?.check(url);
+        if (reason != null) {
+          return hostPolicyError(url, `${url} ${reason}`, args.importer);
+        }
+        if (!httpImporters.has(url) && args.importer !== '') {
+          httpImporters.set(url, args.importer);
+        }
+        emit({ type: 'http-resolve', specifier: args.path, url, importer: args.importer || undefined });
+        return { path: url, namespace };
+      };
+
+      const resolveWithEsbuild = async (specifier: string, kind: ImportKind): Promise<OnResolveResult> => {
+        const result = await build.resolve(specifier, {
+          kind,
+          resolveDir: baseDir,
+          pluginData: { [SKIP_IMPORT_MAP]: true },
+        });
+        if (result.errors.length > 0) {
+          return { errors: result.errors, warnings: result.warnings };
+        }
+        return {
+          path: result.path,
+          namespace: result.namespace,
+          external: result.external,
+          sideEffects: result.sideEffects,
+          suffix: result.suffix,
+          pluginData: result.pluginData,
+          warnings: result.warnings,
+        };
+      };
+
+      // Resolves a normalized specifier against the scopes that match
+      // the importer, then against the top-level imports.
+      const resolveImportMatch = async (
+        spec: string,
+        importerUrl: string | undefined,
+        args: ImporterArgs,
+      ): Promise<OnResolveResult | undefined> => {
+        let match: SpecifierMatch | undefined;
+        try {
+          match = matchImportMap(importMap, spec, importerUrl);
+        } catch (err) {
+          // e.g. a prefix match that backtracks above its target
+          return { errors: [{ text: `${PLUGIN_NAME}: ${(err as Error).message}` }] };
+        }
+        if (match == null) {
+          return undefined;
+        }
+        report.entryUsed(match.key, match.scopePrefix);
+        // Entries mapped to null, or to an invalid target, block the
+        // specifier. The error is reported at the import.
+        if (match.target == null || match.entryTarget == null) {
+          const scope = match.scopePrefix != null ? ` in scope "${match.scopePrefix}"` : '';
+          return {
+            errors: [{
+              text: `${PLUGIN_NAME}: specifier "${args.path}" is blocked by the import map entry "${match.key}"${scope}.`,
+            }],
+          };
+        }
+        const resolved: ResolvedMatch = { ...match, target: match.target, entryTarget: match.entryTarget };
+        emit({
+          type: resolved.isPrefix ? 'resolve-prefix' : 'resolve-exact',
+          specifier: spec,
+          key: resolved.key,
+          target: resolved.target,
+          scope: resolved.scopePrefix,
+        });
+
+        const external = isExternalMatch(resolved) ? resolveExternal(resolved, args) : undefined;
+        if (external != null) {
+          generator?.record(spec, importerUrl, resolved.target);
+          return external;
+        }
+        return resolveMatch(spec, resolved, importerUrl, args);
+      };
+
+      const resolveMatch = async (
+        spec: string,
+        match: ResolvedMatch,
+        importerUrl: string | undefined,
+        args: ImporterArgs,
+      ): Promise<OnResolveResult> => {
+        const result = await resolveMappedTarget(match.target, args);
+        const resolvedUrl = resolvedUrlOf(result);
+        if (resolvedUrl != null) {
+          generator?.record(spec, importerUrl, resolvedUrl);
+        }
+        return result;
+      };
+
+      build.onResolve({ filter: bareSpecifier }, async (args) => {
+        if (args.pluginData?.[SKIP_IMPORT_MAP]) {
+          return;
+        }
+
+        const importerUrl = importerToUrl(args.importer, args.namespace);
+        const result = await resolveImportMatch(args.path, importerUrl, args);
+        if (result != null || args.namespace !== namespace) {
+          // Otherwise (undefined) fall back to default esbuild resolver
+          return result;
+        }
+
+        // Unmapped bare specifier in an http(s) module. esbuild can't resolve
+        // these by itself, as http(s) modules have no resolveDir.
+        if (remoteBareSpecifiers !== 'error') {
+          let remoteResult: OnResolveResult;
+          if (remoteBareSpecifiers === 'node_modules') {
+            log(`Resolving from node_modules: ${args.path} (imported by ${args.importer})`);
+            remoteResult = await resolveWithEsbuild(args.path, args.kind);
+          } else {
+            const url = cdnUrl(remoteBareSpecifiers.cdn, args.path);
+            log(`Resolving from CDN: ${args.path} -> ${url} (imported by ${args.importer})`);
+            remoteResult = resolveTarget(url, enableHttp, url => resolveHttpUrl(url, args));
+          }
+          const resolvedUrl = resolvedUrlOf(remoteResult);
+          if (resolvedUrl != null) {
+            generator?.record(args.path, importerUrl, resolvedUrl);
+          }
+          return remoteResult;
+        }
+        return {
+          errors: [{
+            text: `${PLUGIN_NAME}: bare specifier "${args.path}" imported by ${args.importer} is not in the import map.`,
+            notes: [{
+              text: `Add an import map entry for it, e.g. "${args.path}": "https://esm.sh/${args.path}", ` +
+                `or set the remoteBareSpecifiers option.`,
+            }],
+          }],
+        };
+      });
+
+      // An import map loaded from a file may gain URL-like keys when edited.
+      // Problems with the import maps are reported by onStart.
+      const mayHaveUrlLikeKeys = hasFileSources || sources
+        .filter(isInlineImportMap)
+        .some(source => parseImportMap(source, baseUrl, '', { allowBareTargets: true, onError() {} }).hasUrlLikeKeys);
+      if (mayHaveUrlLikeKeys) {
+        // URL-like specifiers are resolved against the importer's URL
+        // before being matched against the (normalized) keys.
+        build.onResolve({ filter: urlLikeSpecifier }, (args) => {
+          if (!importMap.hasUrlLikeKeys || args.pluginData?.[SKIP_IMPORT_MAP]) {
+            return;
+          }
+          const importerUrl = importerToUrl(args.importer, args.namespace);
+          const spec = parseUrlLikeSpecifier(args.path, importerUrl);
+          if (spec == null) {
+            return;
+          }
+
+          // Otherwise (undefined) fall through to the handlers below, or to
+          // the default esbuild resolver
+          return resolveImportMatch(spec, importerUrl, args);
+        });
+      }
+
       // Absolute http(s) import resulting from import map
       build.onResolve({ filter: /^https?:\/\//, namespace }, args => {
-        const path = args.path;
-        params?.onLog?.(`HTTP entry resolve: ${path}`);
-        return { path, namespace };
+        return resolveHttpUrl(args.path, args);
       });
 
-      // Relative import inside an http(s) module
-      build.onResolve({ filter: /^\.\.?\//, namespace }, args => {
+      if (allowUrlImports) {
+        // Absolute http(s) import written directly in a local module, as
+        // browsers and Deno allow. URL-like import map keys have already
+        // been applied by the handler above.
+        build.onResolve({ filter: /^https?:\/\// }, args => {
+          if (args.namespace !== 'file' || args.pluginData?.[SKIP_IMPORT_MAP]) {
+            return;
+          }
+          return resolveHttpUrl(new URL(args.path).href, args);
+        });
+      }
+
+      // Relative, root-relative (e.g. "/v135/react.mjs") or protocol-relative
+      // (e.g. "//cdn.example.com/x.js") import inside an http(s) module.
+      // URL-like import map keys have already been applied by the handler above.
+      build.onResolve({ filter: /^(?:\.\.?)?\//, namespace }, args => {
         const base = pathToResolvedUrl.get(args.importer) ?? args.importer;
-        const path = new URL(args.path, base).toString();
-        params?.onLog?.(`Resolved: ${args.path} -> ${path}`);
-        return { path, namespace };
+        return resolveHttpUrl(new URL(args.path, base).toString(), args);
+      });
+
+      // Relative or absolute-path import inside a data: URL module, which
+      // has no URL to resolve it against
+      build.onResolve({ filter: /^(?:\.\.?)?\//, namespace: dataNamespace }, args => {
+        return {
+          errors: [{
+            text: `${PLUGIN_NAME}: import "${args.path}" inside a data: URL module can't be resolved, ` +
+              `as data: URLs have no base URL to resolve it against. ` +
+              `Import a bare specifier or a full URL instead.`,
+          }],
+        };
+      });
+
+      // Absolute http(s) import inside a data: URL module, as it has no
+      // other way to import a module by URL. URL-like import map keys have
+      // already been applied.
+      build.onResolve({ filter: /^https?:\/\//, namespace: dataNamespace }, args => {
+        return resolveTarget(new URL(args.path).href, enableHttp, url => resolveHttpUrl(url, args));
+      });
+
+      build.onLoad({ filter: /.*/, namespace: dataNamespace }, args => {
+        const { mimeType, contents } = parseDataUrl(args.path);
+        const loader = loaderFromContentType(mimeType);
+        if (loader == null) {
+          throw new Error(`${PLUGIN_NAME}: data: URL module has unsupported MIME type "${mimeType}".`);
+        }
+        // Bare imports inside the module resolve from the base directory
+        return { contents, loader, resolveDir: baseDir };
       });
 
       // Load files from inside an http(s) module
       build.onLoad({ filter: /.*/, namespace }, async (args) => {
-        params?.onLog?.(`Downloading: ${args.path}`);
-
-        const abortController = new AbortController();
-        const timer = setTimeout(() => abortController.abort(), timeoutMs);
+        const locked = lockfile?.get(args.path);
+        if (lockfile != null && locked == null && frozenLockfile) {
+          throw new Error(
+            `${PLUGIN_NAME}: ${args.path} is not listed in the lockfile ${lockfile.path}, ` +
+            `and frozenLockfile: true is set.`
+          );
+        }
 
         let res: Response;
-        try {
-          // NOTE: This also follows redirects, as { redirect: 'follow' } by default
-          res = await fetch(args.path, { signal: abortController.signal });
-        } finally {
-          clearTimeout(timer);
+        let resolvedUrl: string;
+        let contents: Uint8Array;
+
+        const cached = await cache?.get(args.path);
+        let fromCache = cached != null && (offline || Date.now() - cached.fetchedAt < cacheTtl);
+        if (cached != null && fromCache) {
+          emit({ type: 'cache-hit', url: args.path, revalidated: false });
+          res = new Response(null, { headers: cached.headers });
+          resolvedUrl = cached.resolvedUrl;
+          contents = cached.contents;
+        } else {
+          if (offline) {
+            throw new Error(
+              `${PLUGIN_NAME}: ${args.path} is not in the HTTP cache at ${cache!.dir}. ` +
+              `Run a build without offline: true to download it.`
+            );
+          }
+
+          // A stale cache entry is revalidated with a conditional request
+          const conditionalHeaders: Record<string, string> = {};
+          if (cached?.headers['etag'] != null) {
+            conditionalHeaders['if-none-match'] = cached.headers['etag'];
+          }
+          if (cached?.headers['last-modified'] != null) {
+            conditionalHeaders['if-modified-since'] = cached.headers['last-modified'];
+          }
+          if (cached != null) {
+            log(`Revalidating: ${args.path}`);
+          }
+
+          const result = await client.get(args.path, conditionalHeaders);
+          if (result.blockedRedirect != null) {
+            return hostPolicyError(
+              args.path,
+              `${args.path} redirected to ${result.blockedRedirect.url}, which ${result.blockedRedirect.reason}`,
+              httpImporters.get(args.path) ?? '',
+            );
+          }
+          ({ res, contents } = result);
+
+          if (res.status === 304 && cached != null) {
+            emit({ type: 'cache-hit', url: args.path, revalidated: true });
+            await cache!.revalidated(cached, res.headers);
+            fromCache = true;
+            res = new Response(null, { headers: cached.headers });
+            resolvedUrl = cached.resolvedUrl;
+            contents = cached.contents;
+          } else if (!res.ok) {
+            throw new Error(`GET ${args.path} failed: status ${res.status}`);
+          } else {
+            resolvedUrl = result.url;
+          }
         }
 
-        if (!res.ok) {
-          throw new Error(`GET ${args.path} failed: status ${res.status}`);
+        // A custom fetch function that follows redirects itself may end up
+        // on a host that isn't allowed
+        const redirectReason = resolvedUrl !== args.path ? hostPolicy?.check(resolvedUrl) : undefined;
+        if (redirectReason != null) {
+          return hostPolicyError(
+            args.path,
+            `${args.path} redirected to ${resolvedUrl}, which ${redirectReason}`,
+            httpImporters.get(args.path) ?? '',
+          );
         }
 
-        const resolvedUrl = res.url || args.path; // res.url is empty string in tests
-        pathToResolvedUrl.set(args.path, resolvedUrl);
+        const integrityMetadata = importMap.integrity.get(args.path)?.integrity;
+        if (integrityMetadata != null) {
+          const check = checkIntegrity(integrityMetadata, contents);
+          if (!check.ok) {
+            throw new Error(
+              `${PLUGIN_NAME}: integrity mismatch for ${args.path} (import map integrity): ` +
+              `expected ${check.expected.join(' or ')}, got ${check.actual}.`
+            );
+          }
+        }
+
+        if (generator != null && generateIntegrity) {
+          generator.recordIntegrity(args.path, computeIntegrity('sha384', contents));
+        }
+
+        if (lockfile != null) {
+          const integrity = computeIntegrity('sha384', contents);
+          if (locked == null) {
+            lockfile.set(args.path, { resolvedUrl, integrity });
+          } else if (locked.resolvedUrl !== resolvedUrl) {
+            throw new Error(
+              `${PLUGIN_NAME}: ${args.path} resolved to ${resolvedUrl}, ` +
+              `but the lockfile ${lockfile.path} expects ${locked.resolvedUrl}.`
+            );
+          } else if (locked.integrity !== integrity) {
+            throw new Error(
+              `${PLUGIN_NAME}: integrity mismatch for ${args.path} (lockfile ${lockfile.path}): ` +
+              `expected ${locked.integrity}, got ${integrity}.`
+            );
+          }
+        }
+
+        // Only cache contents that passed verification
+        if (!fromCache) {
+          await cache?.set(args.path, resolvedUrl, res.headers, contents);
+        }
 
-        const contents = new Uint8Array(await res.arrayBuffer());
+        pathToResolvedUrl.set(args.path, resolvedUrl);
 
         const loader =
           (loaderResolver != null ? await loaderResolver({path: args.path, namespace: args.namespace, with: args.with}, res) : null) ??
@@ -123,38 +792,183 @@ export function importMapEsbuildPlugin(params?: ImportMapEsbuildPluginParams): P
   } satisfies Plugin;
 }
 
-function validatePrefixMappings(imports: Record<string, string>): void {
-  for (const [key, value] of Object.entries(imports)) {
-    if (key.endsWith('/') && !value.endsWith('/')) {
-      throw new Error(
-        `${PLUGIN_NAME}: import map prefix key "${key}" must map to a value ending with "/". ` +
-        `Got "${value}".`
-      );
+type LoadedImportMapSource = LoadedImportMap & {
+  // Name of the source, for messages
+  name: string;
+};
+
+// An esbuild message for a problem with an import map, pointing at the
+// offending JSON line when the import map came from a file
+function importMapMessage(
+  problem: { code: string, message: string, path: string[] },
+  source: LoadedImportMapSource,
+): PartialMessage {
+  const location = source.file != null ? findJsonLocation(source.file.text, problem.path) : undefined;
+  return {
+    pluginName: PLUGIN_NAME,
+    text: problem.message,
+    detail: { code: problem.code, source: source.name, path: problem.path },
+    location: location != null ? { file: source.file!.path, ...location } : undefined,
+  };
+}
+
+// Whether the entry at a JSON path of an import map made it into the
+// merged import map
+function hasEntryAt(importMap: ParsedImportMap, source: string, path: string[]): boolean {
+  const maps = [importMap.imports, ...importMap.scopes.map(scope => scope.map)];
+  return maps.some(map => [...map.entries.values()].some(entry =>
+    entry.source === source && entry.path.length === path.length && entry.path.every((part, i) => part === path[i])
+  ));
+}
+
+function unusedEntryProblem(entry: ImportMapEntryRef) {
+  const [field, prefix] = entry.path;
+  const scope = field === 'scopes' ? ` in scope "${prefix}"` : '';
+  return {
+    code: 'unused-entry',
+    message: `import map entry "${entry.path.at(-1)}"${scope} is not used by any import (in ${entry.source}).`,
+    path: entry.path,
+  };
+}
+
+function isInlineImportMap(source: ImportMapSource): source is ImportMap {
+  return !('path' in source) && !('url' in source);
+}
+
+function createSourceLoader(
+  source: ImportMapSource,
+  index: number | undefined,
+  baseDir: string,
+  baseUrl: string,
+  client: HttpClient,
+): () => Promise<LoadedImportMapSource> {
+  if (isInlineImportMap(source)) {
+    const name = index != null ? `importMap[${index}]` : 'importMap';
+    return async () => ({ importMap: source, baseUrl, watchFiles: [], name });
+  }
+
+  if ('path' in source) {
+    const path = resolve(baseDir, source.path);
+    return async () => {
+      try {
+        return { ...await loadImportMapFile(path, client), name: path };
+      } catch (err) {
+        throw new Error(`${PLUGIN_NAME}: ${(err as Error).message}`, { cause: err });
+      }
+    };
+  }
+
+  // The import map at a URL is only fetched once
+  let loaded: Promise<LoadedImportMap> | undefined;
+  return async () => {
+    try {
+      loaded ??= loadImportMapUrl(source.url, client);
+      return { ...await loaded, name: source.url };
+    } catch (err) {
+      loaded = undefined;
+      throw new Error(`${PLUGIN_NAME}: ${(err as Error).message}`, { cause: err });
     }
+  };
+}
+
+type ResolvedMatch = SpecifierMatch & { target: string, entryTarget: string };
+
+function sortImportMap(importMap: ImportMap): ImportMap {
+  const sorted: ImportMap = {};
+  if (importMap.imports != null) {
+    sorted.imports = sortKeys(importMap.imports);
   }
+  if (importMap.scopes != null) {
+    sorted.scopes = Object.fromEntries(
+      Object.entries(sortKeys(importMap.scopes)).map(([prefix, map]) => [prefix, sortKeys(map)])
+    );
+  }
+  return sorted;
 }
 
+function sortKeys<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0));
+}
+
+function cdnUrl(template: string, spec: string): string {
+  // "@scope/pkg/sub/path" -> "@scope/pkg" + "/sub/path"
+  const segments = spec.split('/');
+  const nameLength = spec.startsWith('@') ? 2 : 1;
+  const name = segments.slice(0, nameLength).join('/');
+  const path = segments.slice(nameLength).map(segment => '/' + segment).join('');
+  return template.includes('{path}')
+    ? template.replaceAll('{name}', name).replaceAll('{path}', path)
+    : template.replaceAll('{name}', name) + path;
+}
+
+// HTTP(S) targets are fetched, file: targets are local paths, and data:
+// targets are inline modules. Other targets, such as bare specifiers, are
+// left to esbuild's resolver.
+function isBareTarget(target: string): boolean {
+  return !/^(?:https?|file|data):/.test(target);
+}
+
+// Splits a data: URL into its MIME type (without parameters) and its
+// decoded contents, as the Fetch spec's data: URL processor does
+function parseDataUrl(url: string): { mimeType: string, contents: Uint8Array } {
+  const match = /^data:([^,]*),(.*)$/s.exec(url);
+  if (match == null) {
+    throw new Error(`${PLUGIN_NAME}: ${url} is not a valid data: URL.`);
+  }
+  const params = match[1].split(';').map(param => param.trim());
+  const base64 = params.at(-1)?.toLowerCase() === 'base64';
+  const mimeType = params[0].toLowerCase() || 'text/plain';
+  const body = percentDecode(match[2]);
+  if (!base64) {
+    return { mimeType, contents: body };
+  }
+
+  // Forgiving base64: ASCII whitespace is ignored, and padding is optional
+  const text = Buffer.from(body).toString('latin1').replace(/[\t\n\f\r ]/g, '');
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(text) || text.replace(/=+$/, '').length % 4 === 1) {
+    throw new Error(`${PLUGIN_NAME}: ${url} is not a valid data: URL, as its base64 data is invalid.`);
+  }
+  return { mimeType, contents: Buffer.from(text, 'base64') };
+}
+
+// Decodes valid %XX sequences in the UTF-8 bytes of text, and keeps any other
+// "%" as it is
+function percentDecode(text: string): Uint8Array {
+  const input = Buffer.from(text);
+  const output: number[] = [];
+  const isHexDigit = (byte: number | undefined) => byte != null && /[0-9a-fA-F]/.test(String.fromCharCode(byte));
+  for (let i = 0; i < input.length; i++) {
+    if (input[i] === 0x25 && isHexDigit(input[i + 1]) && isHexDigit(input[i + 2])) {
+      output.push(parseInt(String.fromCharCode(input[i + 1], input[i + 2]), 16));
+      i += 2;
+    } else {
+      output.push(input[i]);
+    }
+  }
+  return Uint8Array.from(output);
+}
+
+// Importer information used when resolving mapping targets
+type ImporterArgs = Pick<OnResolveArgs, 'path' | 'importer' | 'namespace' | 'kind'>;
+
 function resolveTarget(
   target: string,
-  baseDir: string,
-  httpNamespace: string,
   enableHttp: boolean,
+  resolveHttpUrl: (url: string) => OnResolveResult,
 ): OnResolveResult {
   if (/^https?:\/\//.test(target)) {
     if (!enableHttp) {
-      throw new Error(
-        `${PLUGIN_NAME}: HTTP(S) imports are disabled. ` +
-        `Tried to map specifier to ${target} without enableHttp: true.`
-      );
+      return {
+        errors: [{
+          text: `${PLUGIN_NAME}: HTTP(S) imports are disabled. ` +
+            `Tried to map specifier to ${target} without enableHttp: true.`,
+        }],
+      };
     }
-    return { path: target, namespace: httpNamespace };
+    return resolveHttpUrl(target);
   }
 
-  const abs = isAbsolute(target)
-    ? target
-    : resolve(baseDir, target);
-
-  return { path: abs };
+  return { path: fileURLToPath(target) };
 }
 
 const EXT_TO_LOADER: Record<string, Loader> = {
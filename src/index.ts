@@ -1 +1,14 @@
 export * from './importmap-esbuild-plugin.js';
+export * from './vendor.js';
+export {
+  createImportMapResolver,
+  type ImportMapResolver,
+  type ImportMapResolverOptions,
+} from './import-map-resolver.js';
+export { ImportMapUsage } from './import-map-usage.js';
+export {
+  type BuildSummary,
+  formatLogEvent,
+  type ImportMapEntryRef,
+  type ImportMapLogEvent,
+} from './log-events.js';
@@ -0,0 +1,42 @@
+import { createHash } from 'node:crypto';
+
+export type IntegrityAlgorithm = 'sha256' | 'sha384' | 'sha512';
+
+// Computes a Subresource Integrity-style hash, e.g. "sha384-<base64>"
+export function computeIntegrity(algorithm: IntegrityAlgorithm, contents: Uint8Array): string {
+  const digest = createHash(algorithm).update(contents).digest('base64');
+  return `${algorithm}-${digest}`;
+}
+
+// Strongest algorithm first
+const ALGORITHMS: IntegrityAlgorithm[] = ['sha512', 'sha384', 'sha256'];
+
+export type IntegrityCheckResult = {
+  ok: boolean;
+  // Hashes in the metadata, for the strongest algorithm it contains
+  expected: string[];
+  // Hash of the contents, for that same algorithm
+  actual?: string;
+};
+
+// Checks contents against SRI metadata such as "sha384-<base64>", which may
+// list several whitespace-separated hashes. Following the SRI spec, only the
+// hashes of the strongest algorithm present are considered, and the contents
+// pass if they match any one of them. Metadata without any supported hashes
+// always passes.
+export function checkIntegrity(metadata: string, contents: Uint8Array): IntegrityCheckResult {
+  const hashes = metadata
+    .split(/\s+/)
+    .filter(token => token !== '')
+    .map(token => token.split('?')[0]); // Drop options, e.g. "sha384-...?foo"
+
+  for (const algorithm of ALGORITHMS) {
+    const expected = hashes.filter(hash => hash.startsWith(`${algorithm}-`));
+    if (expected.length > 0) {
+      const actual = computeIntegrity(algorithm, contents);
+      return { ok: expected.includes(actual), expected, actual };
+    }
+  }
+
+  return { ok: true, expected: [] };
+}
@@ -0,0 +1,51 @@
+// Location of a key in JSON text, in the form esbuild messages use:
+// 1-based line, and 0-based column and length in bytes
+export type JsonLocation = {
+  line: number;
+  column: number;
+  length: number;
+  lineText: string;
+};
+
+// Finds the key at a JSON path (e.g. ["imports", "lodash"]) in JSON text, by
+// looking for each key after the previous one. The text may be a document
+// the JSON is embedded in, such as an HTML file. Returns the location of the
+// deepest key found, or undefined if not even the first key is found.
+export function findJsonLocation(text: string, path: string[]): JsonLocation | undefined {
+  let found: { start: number, length: number } | undefined;
+  let pos = 0;
+  for (const key of path) {
+    const token = JSON.stringify(key);
+    const start = findKey(text, token, pos);
+    if (start === -1) {
+      break;
+    }
+    found = { start, length: token.length };
+    pos = start + token.length;
+  }
+  if (found == null) {
+    return undefined;
+  }
+
+  const lineStart = text.lastIndexOf('\n', found.start - 1) + 1;
+  const lineEnd = text.indexOf('\n', found.start);
+  const lineText = text.slice(lineStart, lineEnd === -1 ? text.length : lineEnd).replace(/\r$/, '');
+  return {
+    line: text.slice(0, lineStart).split('\n').length,
+    column: Buffer.byteLength(text.slice(lineStart, found.start)),
+    length: Buffer.byteLength(text.slice(found.start, found.start + found.length)),
+    lineText,
+  };
+}
+
+// A quoted string is a key if a colon follows it
+function findKey(text: string, token: string, from: number): number {
+  const colon = /\s*:/y;
+  for (let i = text.indexOf(token, from); i !== -1; i = text.indexOf(token, i + 1)) {
+    colon.lastIndex = i + token.length;
+    if (colon.test(text)) {
+      return i;
+    }
+  }
+  return -1;
+}
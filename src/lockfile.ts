@@ -0,0 +1,72 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+const LOCKFILE_VERSION = 1;
+
+export type LockfileEntry = {
+  // Final URL after following redirects
+  resolvedUrl: string;
+  // SHA-384 hash of the response body, e.g. "sha384-<base64>"
+  integrity: string;
+};
+
+type LockfileData = {
+  version: number;
+  remote: Record<string, LockfileEntry>;
+};
+
+export class Lockfile {
+  public readonly path: string;
+  private readonly entries: Map<string, LockfileEntry>;
+  private modified = false;
+
+  private constructor(path: string, entries: Map<string, LockfileEntry>) {
+    this.path = path;
+    this.entries = entries;
+  }
+
+  // Reads the lockfile at path. A lockfile that does not exist yet is
+  // treated as empty.
+  static async read(path: string): Promise<Lockfile> {
+    let text: string;
+    try {
+      text = await readFile(path, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException)?.code === 'ENOENT') {
+        return new Lockfile(path, new Map());
+      }
+      throw err;
+    }
+
+    const data = JSON.parse(text) as LockfileData;
+    if (data.version !== LOCKFILE_VERSION) {
+      throw new Error(`Unsupported lockfile version ${data.version} in ${path}.`);
+    }
+    return new Lockfile(path, new Map(Object.entries(data.remote ?? {})));
+  }
+
+  get(url: string): LockfileEntry | undefined {
+    return this.entries.get(url);
+  }
+
+  set(url: string, entry: LockfileEntry) {
+    this.entries.set(url, entry);
+    this.modified = true;
+  }
+
+  get isModified() {
+    return this.modified;
+  }
+
+  // Writes the lockfile, with URLs sorted so that diffs stay small
+  async write(): Promise<void> {
+    const remote: Record<string, LockfileEntry> = {};
+    for (const url of [...this.entries.keys()].sort()) {
+      remote[url] = this.entries.get(url)!;
+    }
+    const data: LockfileData = { version: LOCKFILE_VERSION, remote };
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(this.path, JSON.stringify(data, null, 2) + '\n', 'utf8');
+    this.modified = false;
+  }
+}
@@ -0,0 +1,93 @@
+// Events reported through the onEvent option. onLog receives the same
+// events, formatted with formatLogEvent.
+export type ImportMapLogEvent =
+  // A specifier matched an import map entry. key is the normalized key, and
+  // scope is the prefix of the scope the entry is in.
+  | {
+    type: 'resolve-exact' | 'resolve-prefix',
+    specifier: string,
+    key: string,
+    target: string,
+    scope?: string,
+  }
+  // A specifier resolved to an HTTP(S) module
+  | { type: 'http-resolve', specifier: string, url: string, importer?: string }
+  | { type: 'download-start', url: string, attempt: number, attempts: number }
+  | { type: 'download-retry', url: string, attempt: number, attempts: number, reason: string, delayMs: number }
+  // The response of the last attempt. durationMs covers that attempt,
+  // including reading the body.
+  | { type: 'download-finish', url: string, status: number, bytes: number, durationMs: number }
+  // revalidated is true if the entry was stale, and the server answered
+  // 304 Not Modified
+  | { type: 'cache-hit', url: string, revalidated: boolean }
+  | { type: 'error', message: string }
+  | { type: 'info', message: string }
+  | { type: 'summary', summary: BuildSummary };
+
+// An import map entry. key is the normalized key, and scope the normalized
+// scope prefix. source names the import map the entry came from, and path is
+// the JSON path of the entry in it, as written.
+export type ImportMapEntryRef = {
+  key: string,
+  scope?: string,
+  source: string,
+  path: string[],
+};
+
+// Reported at the end of each build
+export type BuildSummary = {
+  // Distinct specifiers that import map entries matched
+  mappedSpecifiers: number;
+  // Entries of the import map that no import matched
+  unusedEntries: ImportMapEntryRef[];
+  downloads: number;
+  bytesDownloaded: number;
+  cacheHits: number;
+  // The slowest downloads, slowest first
+  slowestDownloads: { url: string, durationMs: number }[];
+};
+
+export function formatLogEvent(event: ImportMapLogEvent): string {
+  switch (event.type) {
+    case 'resolve-exact':
+    case 'resolve-prefix': {
+      const scope = event.scope != null ? `Scope ${event.scope}: ` : '';
+      return event.type === 'resolve-prefix'
+        ? `${scope}Prefix match: [${event.key}] ${event.specifier} -> ${event.target}`
+        : `${scope}Exact match: ${event.specifier} -> ${event.target}`;
+    }
+    case 'http-resolve':
+      return `Resolved: ${event.specifier} -> ${event.url}` +
+        (event.importer != null ? ` (imported by ${event.importer})` : '');
+    case 'download-start':
+      return `GET ${event.url} (attempt ${event.attempt} of ${event.attempts})`;
+    case 'download-retry':
+      return `GET ${event.url} failed (attempt ${event.attempt} of ${event.attempts}): ${event.reason}. ` +
+        `Retrying in ${event.delayMs}ms.`;
+    case 'download-finish':
+      return `GET ${event.url}: status ${event.status}, ${event.bytes} bytes in ${event.durationMs}ms`;
+    case 'cache-hit':
+      return event.revalidated ? `Not modified: ${event.url}` : `Cache hit: ${event.url}`;
+    case 'error':
+    case 'info':
+      return event.message;
+    case 'summary':
+      return formatSummary(event.summary);
+  }
+}
+
+function formatSummary(summary: BuildSummary): string {
+  const lines = [
+    `Build summary: ${summary.mappedSpecifiers} specifiers mapped, ` +
+    `${summary.unusedEntries.length} unused import map entries, ` +
+    `${summary.downloads} downloads (${summary.bytesDownloaded} bytes), ${summary.cacheHits} cache hits`,
+  ];
+  for (const entry of summary.unusedEntries) {
+    const scope = entry.scope != null ? ` in scope "${entry.scope}"` : '';
+    lines.push(`  Unused: "${entry.key}"${scope} (in ${entry.source})`);
+  }
+  for (const download of summary.slowestDownloads) {
+    lines.push(`  Slow: ${download.url} (${download.durationMs}ms)`);
+  }
+  return lines.join('\n');
+}
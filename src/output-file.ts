@@ -0,0 +1,24 @@
+import { createHash } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import type { BuildResult, OutputFile } from 'esbuild';
+
+// Adds a file to the output of a build. It is written to disk, or, for
+// builds with write: false, added to result.outputFiles.
+export async function emitOutputFile(result: BuildResult, write: boolean, path: string, text: string): Promise<void> {
+  if (write) {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, text);
+    return;
+  }
+
+  const contents = new TextEncoder().encode(text);
+  const outputFile: OutputFile = {
+    path,
+    contents,
+    hash: createHash('sha256').update(contents).digest('base64url').slice(0, 16),
+    get text() { return text; },
+  };
+  (result.outputFiles ??= []).push(outputFile);
+}
@@ -0,0 +1,349 @@
+import { createHash } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, extname, join, resolve, sep } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import * as esbuild from 'esbuild';
+
+import { HttpClient, type FetchFunction } from './http-client.js';
+import { toRelativeUrl } from './import-map-generator.js';
+import { matchImportMap, parseImportMap, parseUrlLikeSpecifier } from './import-map-resolver.js';
+import { type LoadedImportMap, loadImportMapFile, loadImportMapUrl } from './import-map-source.js';
+import {
+  type ImportMap,
+  importMapEsbuildPlugin,
+  type ImportMapEsbuildPluginParams,
+} from './importmap-esbuild-plugin.js';
+
+export type VendorImportMapParams = ImportMapEsbuildPluginParams & {
+  // Entry points of the build whose HTTP(S) modules are vendored, relative
+  // to baseDir
+  entryPoints: string[];
+  // Directory to download modules into, relative to baseDir (default: "vendor")
+  vendorDir?: string;
+  // Path to write the rewritten import map to, relative to baseDir
+  // (default: "import_map.json" in vendorDir)
+  outputImportMap?: string;
+  // Other esbuild options for walking the import graph, e.g. conditions
+  buildOptions?: Omit<esbuild.BuildOptions, 'entryPoints' | 'plugins' | 'write' | 'bundle' | 'metafile'>;
+};
+
+export type VendoredModule = {
+  // URL that was imported
+  url: string;
+  // Final URL after following redirects
+  resolvedUrl: string;
+  // Local copy
+  path: string;
+};
+
+export type VendorImportMapResult = {
+  importMap: ImportMap;
+  importMapPath: string;
+  modules: VendoredModule[];
+};
+
+// A bare import inside an HTTP(S) module that the import map doesn't map,
+// resolved with remoteBareSpecifiers
+type BareImport = {
+  importer: string;
+  specifier: string;
+  url: string;
+};
+
+type Download = {
+  resolvedUrl: string;
+  contentType: string | null;
+  contents: Uint8Array;
+};
+
+const VENDOR_NAME = 'vendorImportMap';
+
+// Downloads every HTTP(S) module that a build with importMapEsbuildPlugin
+// reaches into a vendor directory, keeping the URL structure (e.g.
+// https://esm.sh/lit@3/index.js -> vendor/esm.sh/lit@3/index.js), and writes
+// an import map that points at the local copies. That import map can be
+// used with importMapPath, without enableHttp.
+export async function vendorImportMap(params: VendorImportMapParams): Promise<VendorImportMapResult> {
+  const {
+    entryPoints,
+    vendorDir: vendorDirParam,
+    outputImportMap,
+    buildOptions,
+    ...pluginParams
+  } = params;
+
+  const baseDir = resolve(pluginParams.baseDir ?? process.cwd());
+  const vendorDir = resolve(baseDir, vendorDirParam ?? 'vendor');
+  const importMapPath = resolve(baseDir, outputImportMap ?? join(vendorDir, 'import_map.json'));
+
+  const original = await loadOriginalImportMap(pluginParams, baseDir);
+
+  // Record the body of every response, as the plugin reads it, and where
+  // each redirect leads
+  const downloads = new Map<string, Promise<Download>>();
+  const redirects = new Map<string, string>();
+  const recordingFetch: FetchFunction = async (url, init) => {
+    const res = await (pluginParams.fetch ?? globalThis.fetch)(url, init);
+    const location = res.status >= 300 && res.status < 400 ? res.headers.get('location') : null;
+    if (location != null) {
+      redirects.set(url, new URL(location, url).href);
+    } else if (res.ok) {
+      const copy = res.clone();
+      downloads.set(url, copy.arrayBuffer().then(buffer => ({
+        resolvedUrl: res.url || url, // res.url is empty string in tests
+        contentType: res.headers.get('content-type'),
+        contents: new Uint8Array(buffer),
+      })));
+    }
+    return res;
+  };
+
+  // Bare imports that the vendored import map needs its own entries for
+  const parsedOriginal = parseImportMap(original.importMap, original.baseUrl, 'importMap', {
+    allowBareTargets: true,
+    onError() {},
+  });
+  const bareImports: BareImport[] = [];
+  const onEvent: ImportMapEsbuildPluginParams['onEvent'] = event => {
+    if (
+      event.type === 'http-resolve' && event.importer != null && /^https?:\/\//.test(event.importer) &&
+      parseUrlLikeSpecifier(event.specifier, event.importer) == null &&
+      matchImportMap(parsedOriginal, event.specifier, event.importer) == null
+    ) {
+      bareImports.push({ importer: event.importer, specifier: event.specifier, url: event.url });
+    }
+    pluginParams.onEvent?.(event);
+  };
+
+  const result = await esbuild.build({
+    logLevel: 'silent',
+    ...buildOptions,
+    entryPoints,
+    absWorkingDir: baseDir,
+    bundle: true,
+    write: false,
+    metafile: true,
+    plugins: [
+      importMapEsbuildPlugin({
+        ...pluginParams,
+        baseDir,
+        enableHttp: true,
+        fetch: recordingFetch,
+        onEvent,
+        // Every module must go through fetch to be recorded
+        cache: undefined,
+        offline: false,
+      }),
+    ],
+  });
+
+  // The modules that ended up in the module graph
+  const urls = Object.keys(result.metafile.inputs)
+    .filter(input => input.startsWith('_http_url:'))
+    .map(input => input.slice('_http_url:'.length))
+    .sort();
+
+  const layout = new VendorLayout(vendorDir);
+  const modules: VendoredModule[] = [];
+  for (const url of urls) {
+    const seen = new Set<string>();
+    let finalUrl = url;
+    while (redirects.has(finalUrl) && !seen.has(finalUrl)) {
+      seen.add(finalUrl);
+      finalUrl = redirects.get(finalUrl)!;
+    }
+    const download = await downloads.get(finalUrl);
+    if (download == null) {
+      throw new Error(`${VENDOR_NAME}: ${url} was not downloaded.`);
+    }
+    const path = layout.add(url, download.resolvedUrl, download.contentType);
+    if (!modules.some(module => module.path === path)) {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, download.contents);
+    }
+    modules.push({ url, resolvedUrl: download.resolvedUrl, path });
+  }
+
+  const importMap = layout.toImportMap(pathToFileURL(importMapPath).href, original, bareImports);
+  await mkdir(dirname(importMapPath), { recursive: true });
+  await writeFile(importMapPath, JSON.stringify(importMap, null, 2) + '\n');
+
+  return { importMap, importMapPath, modules };
+}
+
+async function loadOriginalImportMap(params: ImportMapEsbuildPluginParams, baseDir: string): Promise<LoadedImportMap> {
+  if (Array.isArray(params.importMap)) {
+    throw new Error(`${VENDOR_NAME}: importMap must be a single import map, not an array.`);
+  }
+  const client = new HttpClient({ fetch: params.fetch, headers: params.headers, timeoutMs: params.timeoutMs });
+  if (params.importMapPath != null) {
+    return loadImportMapFile(resolve(baseDir, params.importMapPath), client);
+  }
+  if (params.importMapUrl != null) {
+    return loadImportMapUrl(params.importMapUrl, client);
+  }
+  return {
+    importMap: params.importMap ?? {},
+    baseUrl: pathToFileURL(baseDir + sep).href,
+    watchFiles: [],
+  };
+}
+
+// Local paths of vendored modules, and the import map entries that lead to them
+class VendorLayout {
+  private readonly vendorDir: string;
+  // Vendored URL (requested or final) -> local path
+  private readonly paths = new Map<string, string>();
+  // Local path -> final URL stored there
+  private readonly taken = new Map<string, string>();
+
+  constructor(vendorDir: string) {
+    this.vendorDir = vendorDir;
+  }
+
+  add(url: string, resolvedUrl: string, contentType: string | null): string {
+    let path = this.paths.get(resolvedUrl);
+    if (path == null) {
+      path = this.pathFor(new URL(resolvedUrl), contentType);
+      this.paths.set(resolvedUrl, path);
+    }
+    this.paths.set(url, path);
+    return path;
+  }
+
+  private pathFor(url: URL, contentType: string | null): string {
+    let path = this.naturalPath(url);
+    if (url.pathname.endsWith('/')) {
+      path += 'index';
+    }
+    // Local files are loaded by extension rather than by content type
+    let ext = extname(path);
+    if (ext === '') {
+      ext = extensionFromContentType(contentType);
+      path += ext;
+    }
+    // Query strings, and (unlikely) clashes between URLs, get a hash suffix
+    if (url.search !== '' || (this.taken.has(path) && this.taken.get(path) !== url.href)) {
+      path = path.slice(0, path.length - ext.length) + '_' + shortHash(url.href) + ext;
+    }
+    this.taken.set(path, url.href);
+    return path;
+  }
+
+  private hostDir(url: URL): string {
+    return join(this.vendorDir, url.host.replace(':', '_'));
+  }
+
+  // Where a URL is vendored if it isn't renamed
+  private naturalPath(url: URL): string {
+    return this.hostDir(url) + url.pathname.replaceAll('/', sep);
+  }
+
+  toImportMap(importMapUrl: string, original: LoadedImportMap, bareImports: BareImport[]): ImportMap {
+    const relativeUrl = (fileUrl: string) => toRelativeUrl(fileUrl, importMapUrl);
+    const imports: Record<string, string | null> = {};
+    const scopes: Record<string, Record<string, string | null>> = {};
+
+    for (const [url, path] of [...this.paths].sort(([a], [b]) => a.localeCompare(b))) {
+      const parsed = new URL(url);
+      const hostDirUrl = pathToFileURL(this.hostDir(parsed) + sep).href;
+
+      // Absolute URLs of modules that kept their path are covered by a
+      // prefix entry for their origin. Renamed and redirected ones need
+      // their own entry.
+      const target = relativeUrl(pathToFileURL(path).href);
+      if (path !== this.naturalPath(parsed)) {
+        imports[url] = target;
+      }
+      imports[parsed.origin + '/'] = relativeUrl(hostDirUrl);
+
+      // Root-relative imports inside modules from the same host. These are
+      // exact entries, as a "/" prefix key would match every local path.
+      const scope = (scopes[relativeUrl(hostDirUrl)] ??= {});
+      scope[parsed.pathname + parsed.search] = target;
+    }
+
+    // Bare imports that remoteBareSpecifiers resolved, scoped to the
+    // directory of the vendored module that imports them
+    for (const { importer, specifier, url } of bareImports) {
+      const importerPath = this.paths.get(importer);
+      const path = this.paths.get(url);
+      if (importerPath == null || path == null) {
+        continue;
+      }
+      const scope = (scopes[relativeUrl(pathToFileURL(dirname(importerPath) + sep).href)] ??= {});
+      scope[specifier] = relativeUrl(pathToFileURL(path).href);
+    }
+
+    // Entries of the original import map, pointed at the local copies.
+    // Null entries keep blocking their key.
+    const rewrite = (target: string) => this.rewriteUrl(target, original.baseUrl, relativeUrl);
+    for (const [key, target] of Object.entries(original.importMap.imports ?? {})) {
+      imports[this.rewriteKey(key, original.baseUrl, relativeUrl)] = target != null ? rewrite(target) : null;
+    }
+    for (const [prefix, scopeImports] of Object.entries(original.importMap.scopes ?? {})) {
+      const scopeKey = rewrite(new URL(prefix, original.baseUrl).href);
+      const scope = (scopes[scopeKey] ??= {});
+      for (const [key, target] of Object.entries(scopeImports)) {
+        scope[this.rewriteKey(key, original.baseUrl, relativeUrl)] = target != null ? rewrite(target) : null;
+      }
+    }
+
+    return { imports: sortKeys(imports), scopes: sortKeys(scopes) };
+  }
+
+  // Vendored URLs point at their local copy, and other HTTP(S) prefixes at
+  // the directory their modules were vendored into. Local targets are made
+  // relative to the new import map, and bare targets are kept.
+  private rewriteUrl(target: string, baseUrl: string, relativeUrl: (fileUrl: string) => string): string {
+    if (!/^(?:\.{0,2}\/|[a-zA-Z][a-zA-Z0-9+.-]*:)/.test(target)) {
+      return target;
+    }
+    const url = new URL(target, baseUrl);
+    const path = this.paths.get(url.href);
+    if (path != null) {
+      return relativeUrl(pathToFileURL(path).href);
+    }
+    if (url.protocol === 'http:' || url.protocol === 'https:') {
+      return target.endsWith('/') ? relativeUrl(pathToFileURL(this.naturalPath(url)).href) : target;
+    }
+    if (url.protocol === 'file:') {
+      return relativeUrl(url.href);
+    }
+    return target;
+  }
+
+  // Relative keys are rebased onto the new import map. Bare and absolute
+  // URL keys are kept, as they match the import specifiers as written.
+  private rewriteKey(key: string, baseUrl: string, relativeUrl: (fileUrl: string) => string): string {
+    if (!/^\.{0,2}\//.test(key)) {
+      return key;
+    }
+    const url = new URL(key, baseUrl);
+    return url.protocol === 'file:' && !key.startsWith('/') ? relativeUrl(url.href) : key;
+  }
+}
+
+function extensionFromContentType(contentType: string | null): string {
+  const type = contentType?.split(';')[0].trim().toLowerCase();
+  switch (type) {
+    case 'application/typescript':
+    case 'text/typescript':
+      return '.ts';
+    case 'application/json':
+    case 'text/json':
+      return '.json';
+    case 'text/css':
+      return '.css';
+  }
+  return '.js';
+}
+
+function shortHash(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 8);
+}
+
+function sortKeys<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
@@ -0,0 +1,37 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { BuildReport } from '../src/build-report.js';
+import { parseImportMap } from '../src/import-map-resolver.js';
+
+const importMap = parseImportMap({
+  imports: { a: "https://esm.sh/a", "b/": "https://esm.sh/b/" },
+  scopes: { "/legacy/": { a: "https://esm.sh/a@1" } },
+}, "https://example.com/", "importmap.json");
+
+test("summarize counts mapped specifiers once and lists unused entries", () => {
+  const report = new BuildReport();
+  report.add({ type: "resolve-exact", specifier: "a", key: "a", target: "https://esm.sh/a" });
+  report.add({ type: "resolve-exact", specifier: "a", key: "a", target: "https://esm.sh/a" });
+  report.add({ type: "resolve-prefix", specifier: "b/x.js", key: "b/", target: "https://esm.sh/b/x.js" });
+
+  const summary = report.summarize(importMap);
+  assert.equal(summary.mappedSpecifiers, 2);
+  assert.deepEqual(summary.unusedEntries, [
+    { key: "a", scope: "https://example.com/legacy/", source: "importmap.json", path: ["scopes", "/legacy/", "a"] },
+  ]);
+});
+
+test("summarize adds up downloads and lists the slowest ones first", () => {
+  const report = new BuildReport();
+  for (let i = 1; i <= 7; i++) {
+    report.add({ type: "download-finish", url: `https://esm.sh/${i}`, status: 200, bytes: 10, durationMs: i * 10 });
+  }
+  report.add({ type: "cache-hit", url: "https://esm.sh/cached", revalidated: false });
+
+  const summary = report.summarize(importMap);
+  assert.equal(summary.downloads, 7);
+  assert.equal(summary.bytesDownloaded, 70);
+  assert.equal(summary.cacheHits, 1);
+  assert.deepEqual(summary.slowestDownloads.map(download => download.durationMs), [70, 60, 50, 40, 30]);
+});
@@ -0,0 +1,46 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { HostPolicy } from '../src/host-policy.js';
+
+test("HostPolicy allows everything without patterns", () => {
+  const policy = new HostPolicy({});
+  assert.equal(policy.check("https://anything.example.com/a.js"), undefined);
+});
+
+test("allowedHosts matches exact hosts, wildcard subdomains and URL prefixes", () => {
+  const policy = new HostPolicy({
+    allowedHosts: ["esm.sh", "*.example.com", "https://cdn.jsdelivr.net/npm/"],
+  });
+  assert.equal(policy.check("https://esm.sh/lit"), undefined);
+  assert.equal(policy.check("https://ESM.sh:8443/lit"), undefined);
+  assert.equal(policy.check("https://cdn.example.com/a.js"), undefined);
+  assert.equal(policy.check("https://cdn.jsdelivr.net/npm/lit/+esm"), undefined);
+
+  assert.match(policy.check("https://example.com/a.js")!, /does not match any allowedHosts entry/);
+  assert.match(policy.check("https://evil-esm.sh/lit")!, /does not match any allowedHosts entry/);
+  assert.match(policy.check("https://cdn.jsdelivr.net/gh/x/y")!, /does not match any allowedHosts entry/);
+});
+
+test("host patterns with a port only match that port", () => {
+  const policy = new HostPolicy({ allowedHosts: ["localhost:8080"] });
+  assert.equal(policy.check("http://localhost:8080/a.js"), undefined);
+  assert.ok(policy.check("http://localhost:3000/a.js") != null);
+});
+
+test("deniedHosts takes precedence over allowedHosts", () => {
+  const policy = new HostPolicy({
+    allowedHosts: ["*.example.com"],
+    deniedHosts: ["untrusted.example.com"],
+  });
+  assert.equal(policy.check("https://cdn.example.com/a.js"), undefined);
+  assert.match(
+    policy.check("https://untrusted.example.com/a.js")!,
+    /matches deniedHosts entry "untrusted\.example\.com"/,
+  );
+});
+
+test("invalid host patterns are rejected", () => {
+  assert.throws(() => new HostPolicy({ allowedHosts: ["example.com/path"] }), /Invalid host pattern/);
+  assert.throws(() => new HostPolicy({ deniedHosts: ["https://"] }), /Invalid host pattern/);
+});
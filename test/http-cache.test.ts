@@ -0,0 +1,116 @@
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { HttpCache } from '../src/http-cache.js';
+
+async function withCache(fn: (cache: HttpCache) => Promise<void>) {
+  const dir = mkdtempSync(join(tmpdir(), 'http-cache-'));
+  try {
+    await fn(new HttpCache(join(dir, 'cache')));
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+test("get returns undefined for URLs that were never stored", async () => {
+  await withCache(async (cache) => {
+    assert.equal(await cache.get("https://example.com/a.js"), undefined);
+  });
+});
+
+test("stores body, final URL and relevant headers", async () => {
+  await withCache(async (cache) => {
+    await cache.set(
+      "https://example.com/a.js",
+      "https://example.com/a.js",
+      new Headers({
+        "content-type": "text/javascript",
+        "etag": '"abc"',
+        "set-cookie": "secret=1",
+      }),
+      encoder.encode("export const a = 1;"),
+    );
+
+    const entry = await cache.get("https://example.com/a.js");
+    assert.ok(entry != null);
+    assert.equal(entry.url, "https://example.com/a.js");
+    assert.equal(entry.resolvedUrl, "https://example.com/a.js");
+    assert.deepEqual(entry.headers, {
+      "content-type": "text/javascript",
+      "etag": '"abc"',
+    });
+    assert.equal(decoder.decode(entry.contents), "export const a = 1;");
+  });
+});
+
+test("redirected URLs share the entry of their final URL", async () => {
+  await withCache(async (cache) => {
+    await cache.set(
+      "https://example.com/latest/a.js",
+      "https://example.com/v2/a.js",
+      new Headers({ "content-type": "text/javascript" }),
+      encoder.encode("export const a = 2;"),
+    );
+    await cache.set(
+      "https://example.com/stable/a.js",
+      "https://example.com/v2/a.js",
+      new Headers({ "content-type": "text/javascript" }),
+      encoder.encode("export const a = 2;"),
+    );
+
+    for (const url of [
+      "https://example.com/latest/a.js",
+      "https://example.com/stable/a.js",
+      "https://example.com/v2/a.js",
+    ]) {
+      const entry = await cache.get(url);
+      assert.ok(entry != null, url);
+      assert.equal(entry.url, url);
+      assert.equal(entry.resolvedUrl, "https://example.com/v2/a.js");
+      assert.equal(decoder.decode(entry.contents), "export const a = 2;");
+    }
+
+    // One body, three metadata files, no leftover temp files
+    const files = readdirSync(cache.dir);
+    assert.equal(files.filter(f => f.endsWith(".body")).length, 1);
+    assert.equal(files.filter(f => f.endsWith(".json")).length, 3);
+    assert.equal(files.filter(f => f.endsWith(".tmp")).length, 0);
+  });
+});
+
+test("records when an entry was fetched and updates it on revalidation", async () => {
+  await withCache(async (cache) => {
+    const before = Date.now();
+    await cache.set(
+      "https://example.com/latest/a.js",
+      "https://example.com/v2/a.js",
+      new Headers({ "content-type": "text/javascript", "etag": '"v1"', "last-modified": "Wed, 21 Oct 2015 07:28:00 GMT" }),
+      encoder.encode("export const a = 2;"),
+    );
+
+    const entry = await cache.get("https://example.com/latest/a.js");
+    assert.ok(entry != null);
+    assert.ok(entry.fetchedAt >= before);
+    assert.equal(entry.headers["last-modified"], "Wed, 21 Oct 2015 07:28:00 GMT");
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await cache.revalidated(entry, new Headers({ "etag": '"v1-b"', "content-type": "text/plain" }));
+
+    const revalidated = await cache.get("https://example.com/latest/a.js");
+    assert.ok(revalidated != null);
+    assert.ok(revalidated.fetchedAt > entry.fetchedAt);
+    assert.deepEqual(revalidated.headers, {
+      // Only validators are taken from the 304 response
+      "content-type": "text/javascript",
+      "etag": '"v1-b"',
+      "last-modified": "Wed, 21 Oct 2015 07:28:00 GMT",
+    });
+    assert.equal(decoder.decode(revalidated.contents), "export const a = 2;");
+  });
+});
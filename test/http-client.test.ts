@@ -0,0 +1,179 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { HttpClient, parseRetryAfter } from '../src/http-client.js';
+import { formatLogEvent, type ImportMapLogEvent } from '../src/log-events.js';
+
+function response(status: number, headers?: Record<string, string>) {
+  return new Response(status === 200 ? "ok" : null, { status, headers });
+}
+
+test("retries retryable status codes and network errors, then succeeds", async () => {
+  const outcomes: (() => Response)[] = [
+    () => response(503),
+    () => { throw new TypeError("fetch failed"); },
+    () => response(200),
+  ];
+  const events: ImportMapLogEvent[] = [];
+  const client = new HttpClient({
+    fetch: async () => outcomes.shift()!(),
+    retries: 2,
+    retryDelayMs: 1,
+    onEvent(event) { events.push(event); },
+  });
+
+  const { res, contents } = await client.get("https://example.com/a.js");
+  assert.equal(res.status, 200);
+  assert.equal(new TextDecoder().decode(contents), "ok");
+  assert.deepEqual(events.slice(0, -1).map(formatLogEvent), [
+    "GET https://example.com/a.js (attempt 1 of 3)",
+    "GET https://example.com/a.js failed (attempt 1 of 3): status 503. Retrying in 1ms.",
+    "GET https://example.com/a.js (attempt 2 of 3)",
+    "GET https://example.com/a.js failed (attempt 2 of 3): fetch failed. Retrying in 2ms.",
+    "GET https://example.com/a.js (attempt 3 of 3)",
+  ]);
+  const finish = events.at(-1);
+  assert.equal(finish?.type, "download-finish");
+  assert.equal(finish.status, 200);
+  assert.equal(finish.bytes, 2);
+  assert.equal(typeof finish.durationMs, "number");
+});
+
+test("does not retry other status codes", async () => {
+  let calls = 0;
+  const client = new HttpClient({
+    fetch: async () => { calls++; return response(404); },
+    retries: 3,
+    retryDelayMs: 1,
+  });
+
+  const { res } = await client.get("https://example.com/missing.js");
+  assert.equal(res.status, 404);
+  assert.equal(calls, 1);
+});
+
+test("returns the last response, or throws the last error, when retries run out", async () => {
+  const failing = new HttpClient({
+    fetch: async () => response(502),
+    retries: 1,
+    retryDelayMs: 1,
+  });
+  assert.equal((await failing.get("https://example.com/a.js")).res.status, 502);
+
+  const throwing = new HttpClient({
+    fetch: async () => { throw new TypeError("fetch failed"); },
+    retries: 1,
+    retryDelayMs: 1,
+  });
+  await assert.rejects(() => throwing.get("https://example.com/a.js"), /fetch failed/);
+});
+
+test("Retry-After takes precedence over the backoff delay", async () => {
+  const outcomes = [response(429, { "retry-after": "0" }), response(200)];
+  const events: ImportMapLogEvent[] = [];
+  const client = new HttpClient({
+    fetch: async () => outcomes.shift()!,
+    retries: 1,
+    retryDelayMs: 60_000,
+    onEvent(event) { events.push(event); },
+  });
+
+  const { res } = await client.get("https://example.com/a.js");
+  assert.equal(res.status, 200);
+  assert.match(formatLogEvent(events[1]), /status 429\. Retrying in 0ms\./);
+});
+
+test("parseRetryAfter accepts seconds and HTTP dates", () => {
+  const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+  assert.equal(parseRetryAfter("120", now), 120_000);
+  assert.equal(parseRetryAfter("Wed, 21 Oct 2015 07:28:30 GMT", now), 30_000);
+  assert.equal(parseRetryAfter("Wed, 21 Oct 2015 07:27:00 GMT", now), 0);
+  assert.equal(parseRetryAfter("soon", now), undefined);
+});
+
+test("timeoutMs applies to each attempt", async () => {
+  let calls = 0;
+  const client = new HttpClient({
+    fetch: (_url, init) => {
+      calls++;
+      if (calls === 2) {
+        return Promise.resolve(response(200));
+      }
+      return new Promise((_resolve, reject) => {
+        init.signal!.addEventListener("abort", () => reject(new DOMException("The operation was aborted.", "AbortError")));
+      });
+    },
+    timeoutMs: 10,
+    retries: 1,
+    retryDelayMs: 1,
+  });
+
+  const { res } = await client.get("https://example.com/slow.js");
+  assert.equal(res.status, 200);
+  assert.equal(calls, 2);
+});
+
+test("maxConcurrentFetches limits requests in flight", async () => {
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const client = new HttpClient({
+    fetch: async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return response(200);
+    },
+    maxConcurrentFetches: 2,
+  });
+
+  await Promise.all(
+    Array.from({ length: 6 }, (_, i) => client.get(`https://example.com/${i}.js`)),
+  );
+  assert.equal(maxInFlight, 2);
+});
+
+test("rejects numeric options that would make requests wait or retry forever", () => {
+  assert.throws(() => new HttpClient({ maxConcurrentFetches: 0 }), /maxConcurrentFetches must be an integer >= 1\. Got 0\./);
+  assert.throws(() => new HttpClient({ maxConcurrentFetches: 1.5 }), /maxConcurrentFetches must be an integer >= 1/);
+  assert.throws(() => new HttpClient({ retries: -1 }), /retries must be an integer >= 0\. Got -1\./);
+  assert.throws(() => new HttpClient({ retries: NaN }), /retries must be an integer >= 0/);
+  assert.throws(() => new HttpClient({ retryDelayMs: -5 }), /retryDelayMs must be a number >= 0\. Got -5\./);
+
+  assert.doesNotThrow(() => new HttpClient({ maxConcurrentFetches: 1, retries: 0, retryDelayMs: 0 }));
+});
+
+test("follows redirects one by one, checking each and computing headers for each", async () => {
+  const requests: { url: string, token: string | null, redirect?: RequestRedirect }[] = [];
+  const client = new HttpClient({
+    fetch: async (url, init) => {
+      requests.push({ url, token: new Headers(init.headers).get("x-token"), redirect: init.redirect });
+      if (url === "https://a.test/lib") {
+        return new Response(null, { status: 302, headers: { location: "/v2/lib.js" } });
+      }
+      if (url === "https://a.test/v2/lib.js") {
+        return new Response(null, { status: 301, headers: { location: "https://b.test/lib.js" } });
+      }
+      return response(200);
+    },
+    headers: url => ({ "x-token": new URL(url).host }),
+    checkRedirect: url => url.startsWith("https://b.test/") ? "is on a denied host" : undefined,
+  });
+
+  const result = await client.get("https://a.test/lib");
+  assert.equal(result.res.status, 301);
+  assert.equal(result.url, "https://a.test/v2/lib.js");
+  assert.deepEqual(result.blockedRedirect, { url: "https://b.test/lib.js", reason: "is on a denied host" });
+  assert.deepEqual(requests, [
+    { url: "https://a.test/lib", token: "a.test", redirect: "manual" },
+    { url: "https://a.test/v2/lib.js", token: "a.test", redirect: "manual" },
+  ]);
+
+  const followed = await new HttpClient({
+    fetch: async (url) => url === "https://a.test/lib"
+      ? new Response(null, { status: 307, headers: { location: "https://c.test/lib.js" } })
+      : response(200),
+  }).get("https://a.test/lib");
+  assert.equal(followed.res.status, 200);
+  assert.equal(followed.url, "https://c.test/lib.js");
+});
@@ -0,0 +1,48 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { ImportMapGenerator } from '../src/import-map-generator.js';
+
+const importMapUrl = "file:///project/dist/importmap.json";
+
+test("generate lists each specifier with the URL it resolved to", () => {
+  const generator = new ImportMapGenerator();
+  generator.record("lit", "file:///project/src/a.js", "https://esm.sh/lit@3");
+  generator.record("app/util", "file:///project/src/a.js", "file:///project/src/util.js");
+
+  assert.deepEqual(generator.generate(importMapUrl), {
+    imports: {
+      "app/util": "../src/util.js",
+      lit: "https://esm.sh/lit@3",
+    },
+  });
+});
+
+test("generate puts the most common resolution at the top level and the others in scopes", () => {
+  const generator = new ImportMapGenerator();
+  generator.record("react", "file:///project/legacy/a.js", "https://esm.sh/react@17");
+  generator.record("react", "file:///project/src/a.js", "https://esm.sh/react@18");
+  generator.record("react", "file:///project/src/b.js", "https://esm.sh/react@18");
+
+  assert.deepEqual(generator.generate(importMapUrl), {
+    imports: { react: "https://esm.sh/react@18" },
+  });
+  assert.deepEqual(generator.generate(importMapUrl, { scopes: true }), {
+    imports: { react: "https://esm.sh/react@18" },
+    scopes: {
+      "../legacy/a.js": { react: "https://esm.sh/react@17" },
+    },
+  });
+});
+
+test("generate adds integrity hashes when asked to", () => {
+  const generator = new ImportMapGenerator();
+  generator.record("lit", undefined, "https://esm.sh/lit@3");
+  generator.recordIntegrity("https://esm.sh/lit@3", "sha384-abc");
+
+  assert.deepEqual(generator.generate(importMapUrl), { imports: { lit: "https://esm.sh/lit@3" } });
+  assert.deepEqual(generator.generate(importMapUrl, { integrity: true }), {
+    imports: { lit: "https://esm.sh/lit@3" },
+    integrity: { "https://esm.sh/lit@3": "sha384-abc" },
+  });
+});
@@ -0,0 +1,178 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  createImportMapResolver,
+  type ImportMapWarning,
+  matchImportMap,
+  parseImportMap,
+} from '../src/import-map-resolver.js';
+
+const baseUrl = "https://example.com/app/";
+
+test("resolve applies exact and prefix entries", () => {
+  const resolver = createImportMapResolver({
+    imports: {
+      lit: "https://esm.sh/lit@3",
+      "lit/": "https://esm.sh/lit@3/",
+      "app/": "./src/",
+    },
+  }, { baseUrl });
+
+  assert.equal(resolver.resolve("lit"), "https://esm.sh/lit@3");
+  assert.equal(resolver.resolve("lit/decorators.js"), "https://esm.sh/lit@3/decorators.js");
+  assert.equal(resolver.resolve("app/main.js"), "https://example.com/app/src/main.js");
+});
+
+test("resolve prefers the most specific scope that matches the referrer", () => {
+  const resolver = createImportMapResolver({
+    imports: { react: "https://esm.sh/react@18" },
+    scopes: {
+      "/app/legacy/": { react: "https://esm.sh/react@17" },
+      "/app/legacy/old/": { react: "https://esm.sh/react@16" },
+    },
+  }, { baseUrl });
+
+  assert.equal(resolver.resolve("react", "https://example.com/app/main.js"), "https://esm.sh/react@18");
+  assert.equal(resolver.resolve("react", "https://example.com/app/legacy/a.js"), "https://esm.sh/react@17");
+  assert.equal(resolver.resolve("react", "https://example.com/app/legacy/old/a.js"), "https://esm.sh/react@16");
+});
+
+test("resolve applies URL-like keys to relative and absolute specifiers", () => {
+  const resolver = createImportMapResolver({
+    imports: {
+      "./legacy.js": "./modern.js",
+      "https://cdn.example.com/react@17/": "https://cdn.example.com/react@18/",
+    },
+  }, { baseUrl });
+
+  assert.equal(resolver.resolve("./legacy.js"), "https://example.com/app/modern.js");
+  assert.equal(resolver.resolve("../app/legacy.js", "https://example.com/other/x.js"), "https://example.com/app/modern.js");
+  assert.equal(
+    resolver.resolve("https://cdn.example.com/react@17/index.js"),
+    "https://cdn.example.com/react@18/index.js",
+  );
+});
+
+test("resolve resolves unmapped URL-like specifiers against the referrer", () => {
+  const resolver = createImportMapResolver({ imports: {} }, { baseUrl });
+
+  assert.equal(resolver.resolve("./util.js", "https://example.com/app/lib/a.js"), "https://example.com/app/lib/util.js");
+  assert.equal(resolver.resolve("/root.js"), "https://example.com/root.js");
+  assert.equal(resolver.resolve("https://esm.sh/lit"), "https://esm.sh/lit");
+});
+
+test("resolve throws a TypeError for unmapped bare specifiers", () => {
+  const resolver = createImportMapResolver({ imports: { lit: "https://esm.sh/lit" } }, { baseUrl });
+
+  assert.throws(() => resolver.resolve("react"), {
+    name: "TypeError",
+    message: 'Bare specifier "react" is not mapped by the import map.',
+  });
+});
+
+test("resolve throws a TypeError when a prefix match backtracks above its target", () => {
+  const resolver = createImportMapResolver({ imports: { "pkg/": "https://esm.sh/pkg/" } }, { baseUrl });
+
+  assert.throws(() => resolver.resolve("pkg/../other.js"), {
+    name: "TypeError",
+    message: /backtracks above its import map prefix "pkg\/"/,
+  });
+});
+
+test("bare targets are invalid and block their key, with a warning", () => {
+  const warnings: string[] = [];
+  const resolver = createImportMapResolver({
+    imports: { react: "preact/compat" },
+  }, { baseUrl, onWarning: message => warnings.push(message) });
+
+  assert.equal(warnings.length, 1);
+  assert.match(warnings[0], /import map entry "react" has an invalid target "preact\/compat"/);
+  assert.deepEqual(resolver.warnings, warnings);
+  assert.throws(() => resolver.resolve("react"), {
+    name: "TypeError",
+    message: 'Specifier "react" is blocked by the import map entry "react".',
+  });
+});
+
+test("null entries block their key without a warning", () => {
+  const resolver = createImportMapResolver({
+    imports: { lodash: null, "lodash/": null, lit: "https://esm.sh/lit" },
+  }, { baseUrl });
+
+  assert.deepEqual(resolver.warnings, []);
+  assert.equal(resolver.resolve("lit"), "https://esm.sh/lit");
+  assert.throws(() => resolver.resolve("lodash"), /blocked by the import map entry "lodash"/);
+  assert.throws(() => resolver.resolve("lodash/fp"), /blocked by the import map entry "lodash\/"/);
+});
+
+test("prefix keys with targets that don't end in a slash block the prefix", () => {
+  const resolver = createImportMapResolver({
+    imports: { "lit/": "https://esm.sh/lit@3" },
+  }, { baseUrl });
+
+  assert.equal(resolver.warnings.length, 1);
+  assert.match(resolver.warnings[0], /prefix key "lit\/" must map to a value ending with "\/"/);
+  assert.throws(() => resolver.resolve("lit/index.js"), /blocked by the import map entry "lit\/"/);
+});
+
+test("empty keys, invalid scopes and invalid integrity entries are ignored, with a warning", () => {
+  const resolver = createImportMapResolver({
+    imports: { "": "./empty.js" },
+    scopes: { "https://[invalid/": { lit: "https://esm.sh/lit" } },
+    integrity: { "bare": "sha384-abc" },
+  }, { baseUrl });
+
+  assert.equal(resolver.warnings.length, 3);
+  assert.match(resolver.warnings[0], /import map key "" is invalid/);
+  assert.match(resolver.warnings[1], /scope "https:\/\/\[invalid\/" is not a valid URL/);
+  assert.match(resolver.warnings[2], /integrity entry "bare" is invalid/);
+});
+
+test("parseImportMap reports structural errors to onError instead of throwing", () => {
+  const errors: ImportMapWarning[] = [];
+  const warnings: ImportMapWarning[] = [];
+  const parsed = parseImportMap({
+    imports: { lit: "https://esm.sh/lit" },
+    scopes: { "/legacy/": "nope" },
+    integrity: [],
+    extra: true,
+  }, baseUrl, "importmap.json", {
+    onError: error => errors.push(error),
+    onWarning: warning => warnings.push(warning),
+  });
+
+  assert.deepEqual(errors.map(error => [error.code, error.path]), [
+    ["invalid-field", ["integrity"]],
+    ["invalid-field", ["scopes", "/legacy/"]],
+  ]);
+  assert.deepEqual(warnings.map(warning => [warning.code, warning.path]), [
+    ["unknown-field", ["extra"]],
+  ]);
+  assert.equal(matchImportMap(parsed, "lit", undefined)?.target, "https://esm.sh/lit");
+});
+
+test("createImportMapResolver accepts JSON text and throws for structural errors", () => {
+  const resolver = createImportMapResolver('{ "imports": { "lit": "https://esm.sh/lit" } }', { baseUrl });
+  assert.equal(resolver.resolve("lit"), "https://esm.sh/lit");
+
+  assert.throws(() => createImportMapResolver('{ "imports": [] }', { baseUrl }), {
+    name: "TypeError",
+    message: /"imports" in the import map in importMap must be a JSON object/,
+  });
+});
+
+test("pluginCompatible keeps bare targets, and throws for prefix keys with invalid targets", () => {
+  const resolver = createImportMapResolver({
+    imports: { react: "preact/compat", "react/": "preact/compat/" },
+  }, { baseUrl, pluginCompatible: true });
+
+  assert.deepEqual(resolver.warnings, []);
+  assert.equal(resolver.resolve("react"), "preact/compat");
+  assert.equal(resolver.resolve("react/jsx-runtime"), "preact/compat/jsx-runtime");
+
+  assert.throws(
+    () => createImportMapResolver({ imports: { "lit/": "https://esm.sh/lit@3" } }, { baseUrl, pluginCompatible: true }),
+    { name: "TypeError", message: /prefix key "lit\/" must map to a value ending with "\/"/ },
+  );
+});
@@ -0,0 +1,152 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { loadImportMapFile, loadImportMapUrl } from '../src/import-map-source.js';
+
+/** Save/restore global fetch between tests */
+const realFetch = globalThis.fetch;
+test.afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+async function withTempDir(fn: (dir: string, createFile: (relPath: string, content: string) => Promise<string>) => Promise<void>) {
+  const dir = mkdtempSync(join(tmpdir(), 'import-map-source-'));
+  const createFile = async (relPath: string, content: string) => {
+    const filePath = join(dir, relPath);
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, content, 'utf8');
+    return filePath;
+  };
+  try {
+    await fn(dir, createFile);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test("loads an import map JSON file, relative to the file itself", async () => {
+  await withTempDir(async (_dir, createFile) => {
+    const path = await createFile("./config/importmap.json", JSON.stringify({
+      imports: { pkg: "./pkg.js" },
+      scopes: { "./legacy/": { pkg: "./pkg-legacy.js" } },
+    }));
+
+    const loaded = await loadImportMapFile(path);
+    assert.deepEqual(loaded.importMap, {
+      imports: { pkg: "./pkg.js" },
+      scopes: { "./legacy/": { pkg: "./pkg-legacy.js" } },
+    });
+    assert.equal(loaded.baseUrl, pathToFileURL(path).href);
+    assert.deepEqual(loaded.watchFiles, [path]);
+  });
+});
+
+test("loads import map fields from deno.jsonc, ignoring comments and other fields", async () => {
+  await withTempDir(async (_dir, createFile) => {
+    const path = await createFile("./deno.jsonc", `{
+  // Tasks are not part of the import map
+  "tasks": { "dev": "deno run main.ts" },
+  /* mapped packages */
+  "imports": {
+    "pkg": "./pkg.js", // trailing comma follows
+    "url": "https://example.com/a//b.js",
+  },
+}
+`);
+
+    const loaded = await loadImportMapFile(path);
+    assert.deepEqual(loaded.importMap, {
+      imports: {
+        pkg: "./pkg.js",
+        url: "https://example.com/a//b.js",
+      },
+    });
+  });
+});
+
+test("follows the importMap field of deno.json", async () => {
+  await withTempDir(async (_dir, createFile) => {
+    const denoJson = await createFile("./deno.json", JSON.stringify({ importMap: "./maps/import_map.json" }));
+    const mapJson = await createFile("./maps/import_map.json", JSON.stringify({ imports: { pkg: "./pkg.js" } }));
+
+    const loaded = await loadImportMapFile(denoJson);
+    assert.deepEqual(loaded.importMap, { imports: { pkg: "./pkg.js" } });
+    // Relative to the referenced file, not deno.json
+    assert.equal(loaded.baseUrl, pathToFileURL(mapJson).href);
+    assert.deepEqual(loaded.watchFiles, [denoJson, mapJson]);
+  });
+});
+
+test("loads the <script type=\"importmap\"> element of an HTML file", async () => {
+  await withTempDir(async (_dir, createFile) => {
+    const path = await createFile("./index.html", `<!doctype html>
+<html>
+<head>
+  <!-- <script type="importmap">{ "imports": { "commented": "./out.js" } }</script> -->
+  <script type="module" src="./main.js"></script>
+  <script TYPE='importmap'>
+    { "imports": { "pkg": "./pkg.js" } }
+  </script>
+</head>
+</html>
+`);
+
+    const loaded = await loadImportMapFile(path);
+    assert.deepEqual(loaded.importMap, { imports: { pkg: "./pkg.js" } });
+    assert.equal(loaded.baseUrl, pathToFileURL(path).href);
+  });
+});
+
+test("rejects HTML files without an import map", async () => {
+  await withTempDir(async (_dir, createFile) => {
+    const path = await createFile("./index.html", `<script type="module">import "pkg";</script>`);
+    await assert.rejects(() => loadImportMapFile(path), /No <script type="importmap"> element found/);
+  });
+});
+
+test("rejects files that don't contain a JSON object", async () => {
+  await withTempDir(async (_dir, createFile) => {
+    const path = await createFile("./importmap.json", `["pkg"]`);
+    await assert.rejects(() => loadImportMapFile(path), /must be a JSON object/);
+  });
+});
+
+test("rejects missing files", async () => {
+  await withTempDir(async (dir) => {
+    await assert.rejects(
+      () => loadImportMapFile(join(dir, "missing.json")),
+      /Could not read import map file .*missing\.json/,
+    );
+  });
+});
+
+test("loads an import map from a URL, relative to its final URL", async () => {
+  globalThis.fetch = async (info) => {
+    assert.equal(String(info), "https://example.com/importmap");
+    const res = new Response(
+      `<script type="importmap">{ "imports": { "pkg": "./pkg.js" } }</script>`,
+      { headers: { "content-type": "text/html; charset=utf-8" } },
+    );
+    Object.defineProperty(res, "url", { value: "https://example.com/app/index.html" });
+    return res;
+  };
+
+  const loaded = await loadImportMapUrl("https://example.com/importmap");
+  assert.deepEqual(loaded.importMap, { imports: { pkg: "./pkg.js" } });
+  assert.equal(loaded.baseUrl, "https://example.com/app/index.html");
+  assert.deepEqual(loaded.watchFiles, []);
+});
+
+test("rejects import map URLs that fail to load", async () => {
+  globalThis.fetch = async () => new Response("nope", { status: 404 });
+
+  await assert.rejects(
+    () => loadImportMapUrl("https://example.com/importmap.json"),
+    /Could not fetch import map https:\/\/example\.com\/importmap\.json: GET .* failed: status 404/,
+  );
+});
@@ -0,0 +1,25 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { ImportMapUsage } from '../src/import-map-usage.js';
+
+const entry = (key: string, scope?: string) => ({ key, scope, source: "importmap.json", path: ["imports", key] });
+
+test("an entry is used if any build used it", () => {
+  const usage = new ImportMapUsage();
+  usage.record(entry("a"), false);
+  usage.record(entry("b"), false);
+  usage.record(entry("a"), true);
+  usage.record(entry("a"), false);
+
+  assert.deepEqual(usage.usedEntries().map(e => e.key), ["a"]);
+  assert.deepEqual(usage.unusedEntries().map(e => e.key), ["b"]);
+});
+
+test("entries with the same key in different scopes are tracked separately", () => {
+  const usage = new ImportMapUsage();
+  usage.record(entry("a"), true);
+  usage.record(entry("a", "https://example.com/legacy/"), false);
+
+  assert.deepEqual(usage.unusedEntries().map(e => [e.key, e.scope]), [["a", "https://example.com/legacy/"]]);
+});
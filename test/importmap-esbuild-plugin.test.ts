@@ -1,13 +1,17 @@
+import { createHash } from 'node:crypto';
 import { mkdtempSync, rmSync } from 'node:fs';
-import { mkdir, writeFile } from 'node:fs/promises';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { dirname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
 import test from 'node:test';
 import assert from 'node:assert/strict';
 import * as esbuild from 'esbuild';
 import { type Loader }  from 'esbuild';
 
 import { importMapEsbuildPlugin, ImportMapEsbuildPluginParams } from '../src/importmap-esbuild-plugin.js';
+import { ImportMapUsage } from '../src/import-map-usage.js';
+import type { ImportMapLogEvent } from '../src/log-events.js';
 
 /** Save/restore global fetch between tests */
 const realFetch = globalThis.fetch;
@@ -1390,3 +1394,2559 @@ test("loaderResolver returning null falls back to extension/content-type loader
     assert.match(outputText, /99/);
   });
 });
+
+test("scope mapping applies to local importers under the scope prefix", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./pkg-modern.js", 'export const which = "modern";\n');
+    await tmpDir.createFile("./pkg-legacy.js", 'export const which = "legacy";\n');
+    await tmpDir.createFile(
+      "./legacy/index.js",
+      'import { which } from "pkg"; export const legacy = which;\n'
+    );
+    await tmpDir.createFile(
+      "./index.js",
+      [
+        'import { which } from "pkg";',
+        'import { legacy } from "./legacy/index.js";',
+        'console.log(which, legacy);',
+        "",
+      ].join("\n"),
+    );
+
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: {
+            pkg: "./pkg-modern.js",
+          },
+          scopes: {
+            "./legacy/": {
+              pkg: "./pkg-legacy.js",
+            },
+          },
+        },
+        baseDir: tmpDir.dir,
+      },
+    });
+
+    // Entry uses the top-level mapping, legacy/ uses the scoped one
+    assert.match(outputText, /"modern"/);
+    assert.match(outputText, /"legacy"/);
+  });
+});
+
+test("most specific scope wins, and unmatched specifiers fall back to less specific scopes and imports", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./a-outer.js", 'export const a = "a-outer";\n');
+    await tmpDir.createFile("./a-inner.js", 'export const a = "a-inner";\n');
+    await tmpDir.createFile("./b-outer.js", 'export const b = "b-outer";\n');
+    await tmpDir.createFile("./c-top.js", 'export const c = "c-top";\n');
+    await tmpDir.createFile(
+      "./src/inner/index.js",
+      [
+        'import { a } from "a";',
+        'import { b } from "b";',
+        'import { c } from "c";',
+        'console.log(a, b, c);',
+        "",
+      ].join("\n"),
+    );
+
+    const { outputText } = await runBuild(tmpDir.resolve("./src/inner/index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: {
+            a: "./missing.js",
+            b: "./missing.js",
+            c: "./c-top.js",
+          },
+          scopes: {
+            "./src/": {
+              a: "./a-outer.js",
+              b: "./b-outer.js",
+            },
+            "./src/inner/": {
+              a: "./a-inner.js",
+            },
+          },
+        },
+        baseDir: tmpDir.dir,
+      },
+    });
+
+    assert.match(outputText, /a-inner/);
+    assert.doesNotMatch(outputText, /a-outer/);
+    assert.match(outputText, /b-outer/);
+    assert.match(outputText, /c-top/);
+  });
+});
+
+test("scope prefix mappings apply to bare imports inside http modules", async () => {
+  const calls: string[] = [];
+  setFetchMock(async (info) => {
+    const url = String(info);
+    calls.push(url);
+
+    if (url === "https://cdn.example.com/app.js") {
+      return makeResponse(`export { react } from "legacy";`);
+    }
+    if (url === "https://cdn.example.com/legacy/index.js") {
+      return makeResponse(`export { react } from "react";`);
+    }
+    if (url === "https://cdn.example.com/react@17/index.js") {
+      return makeResponse(`export const react = "react-17";`);
+    }
+    throw new Error("unexpected url " + url);
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { react } from "app"; console.log(react);\n'
+    );
+
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: {
+            app: "https://cdn.example.com/app.js",
+            legacy: "https://cdn.example.com/legacy/index.js",
+            "react": "https://cdn.example.com/react@18/index.js",
+          },
+          scopes: {
+            "https://cdn.example.com/legacy/": {
+              "react": "https://cdn.example.com/react@17/index.js",
+            },
+          },
+        },
+        baseDir: tmpDir.dir,
+        enableHttp: true,
+      },
+    });
+
+    assert.match(outputText, /react-17/);
+    assert.ok(!calls.includes("https://cdn.example.com/react@18/index.js"));
+  });
+});
+
+test("scopes match http importers by their redirected URL", async () => {
+  setFetchMock(async (info) => {
+    const url = String(info);
+
+    if (url === "https://cdn.example.com/latest/mod.js") {
+      // Simulate a redirect to a pinned URL
+      const res = makeResponse(`export { dep } from "dep";`);
+      Object.defineProperty(res, "url", { value: "https://cdn.example.com/v2/mod.js" });
+      return res;
+    }
+    if (url === "https://cdn.example.com/dep-v2.js") {
+      return makeResponse(`export const dep = "dep-v2";`);
+    }
+    throw new Error("unexpected url " + url);
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { dep } from "mod"; console.log(dep);\n'
+    );
+
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: {
+            mod: "https://cdn.example.com/latest/mod.js",
+          },
+          scopes: {
+            "https://cdn.example.com/v2/": {
+              dep: "https://cdn.example.com/dep-v2.js",
+            },
+          },
+        },
+        baseDir: tmpDir.dir,
+        enableHttp: true,
+      },
+    });
+
+    assert.match(outputText, /dep-v2/);
+  });
+});
+
+test('scoped prefix mapping requires target value to end with "/"', async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile('./index.js', 'console.log("ok");\n');
+
+    await assert.rejects(
+      () =>
+        runBuild(tmpDir.resolve('./index.js'), {
+          importMapEsbuildPluginParams: {
+            importMap: {
+              scopes: {
+                './src/': {
+                  'pkg/': './pkg',
+                },
+              },
+            },
+            baseDir: tmpDir.dir,
+          },
+        }),
+      /prefix key "pkg\/" must map to a value ending with "\/"/,
+    );
+  });
+});
+
+test("path-like keys remap relative imports that resolve to the same file", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./lib/legacy.js", 'export const which = "legacy";\n');
+    await tmpDir.createFile("./lib/modern.js", 'export const which = "modern";\n');
+    await tmpDir.createFile(
+      "./src/feature.js",
+      'import { which } from "../lib/legacy.js"; export const feature = which;\n'
+    );
+    await tmpDir.createFile(
+      "./index.js",
+      [
+        'import { which } from "./lib/legacy.js";',
+        'import { feature } from "./src/feature.js";',
+        'console.log(which, feature);',
+        "",
+      ].join("\n"),
+    );
+
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: {
+            "./lib/legacy.js": "./lib/modern.js",
+          },
+        },
+        baseDir: tmpDir.dir,
+      },
+    });
+
+    assert.match(outputText, /modern/);
+    assert.doesNotMatch(outputText, /legacy/);
+  });
+});
+
+test("absolute path prefix keys remap absolute imports", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./shared/util.js", 'export const which = "shared-original";\n');
+    await tmpDir.createFile("./override/util.js", 'export const which = "shared-override";\n');
+    await tmpDir.createFile(
+      "./index.js",
+      `import { which } from ${JSON.stringify(tmpDir.resolve("./shared/util.js"))}; console.log(which);\n`
+    );
+
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: {
+            [tmpDir.resolve("./shared") + "/"]: "./override/",
+          },
+        },
+        baseDir: tmpDir.dir,
+      },
+    });
+
+    assert.match(outputText, /shared-override/);
+    assert.doesNotMatch(outputText, /shared-original/);
+  });
+});
+
+test("URL prefix keys remap absolute and relative URL imports inside http modules", async () => {
+  const calls: string[] = [];
+  setFetchMock(async (info) => {
+    const url = String(info);
+    calls.push(url);
+
+    if (url === "https://cdn.example.com/app/index.js") {
+      return makeResponse(`
+export { a } from "https://cdn.example.com/react@18/a.js";
+export { b } from "../react@18/b.js";
+`);
+    }
+    if (url === "https://cdn.example.com/preact@10/a.js") {
+      return makeResponse(`export const a = "preact-a";`);
+    }
+    if (url === "https://cdn.example.com/preact@10/b.js") {
+      return makeResponse(`export const b = "preact-b";`);
+    }
+    throw new Error("unexpected url " + url);
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { a, b } from "app"; console.log(a, b);\n'
+    );
+
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: {
+            app: "https://cdn.example.com/app/index.js",
+            "https://cdn.example.com/react@18/": "https://cdn.example.com/preact@10/",
+          },
+        },
+        baseDir: tmpDir.dir,
+        enableHttp: true,
+      },
+    });
+
+    assert.match(outputText, /preact-a/);
+    assert.match(outputText, /preact-b/);
+    assert.deepEqual(new Set(calls), new Set([
+      "https://cdn.example.com/app/index.js",
+      "https://cdn.example.com/preact@10/a.js",
+      "https://cdn.example.com/preact@10/b.js",
+    ]));
+  });
+});
+
+test("URL keys can redirect a transitive http dependency to a local file", async () => {
+  const calls: string[] = [];
+  setFetchMock(async (info) => {
+    const url = String(info);
+    calls.push(url);
+
+    if (url === "https://cdn.example.com/lib.js") {
+      return makeResponse(`export { dep } from "./dep.js";`);
+    }
+    throw new Error("unexpected url " + url);
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./patched-dep.js", 'export const dep = "patched";\n');
+    await tmpDir.createFile(
+      "./index.js",
+      'import { dep } from "lib"; console.log(dep);\n'
+    );
+
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: {
+            lib: "https://cdn.example.com/lib.js",
+            "https://cdn.example.com/dep.js": "./patched-dep.js",
+          },
+        },
+        baseDir: tmpDir.dir,
+        enableHttp: true,
+      },
+    });
+
+    assert.match(outputText, /patched/);
+    assert.deepEqual(calls, ["https://cdn.example.com/lib.js"]);
+  });
+});
+
+test("cache option with cacheTtl serves http modules from disk on later builds", async () => {
+  const calls: string[] = [];
+  setFetchMock(async (info) => {
+    const url = String(info);
+    calls.push(url);
+    if (url === "https://example.com/mod") {
+      return makeResponse(`export const x: number = 5;`, {
+        contentType: "application/typescript",
+      });
+    }
+    throw new Error("unexpected url " + url);
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { x } from "example"; console.log(x);\n'
+    );
+
+    const importMapEsbuildPluginParams: ImportMapEsbuildPluginParams = {
+      importMap: {
+        imports: {
+          example: "https://example.com/mod",
+        },
+      },
+      baseDir: tmpDir.dir,
+      enableHttp: true,
+      cache: "./.http-cache",
+      cacheTtl: Infinity,
+    };
+
+    const first = await runBuild(tmpDir.resolve("./index.js"), { importMapEsbuildPluginParams });
+    const second = await runBuild(tmpDir.resolve("./index.js"), { importMapEsbuildPluginParams });
+
+    assert.deepEqual(calls, ["https://example.com/mod"]);
+
+    // Content-type comes from the cache, so the ts loader is still picked
+    assert.match(first.outputText, /x\s*=\s*5/);
+    assert.equal(second.outputText, first.outputText);
+  });
+});
+
+test("offline mode serves from the cache and follows cached redirects", async () => {
+  setFetchMock(async (info) => {
+    const url = String(info);
+    if (url === "https://example.com/latest/a.js") {
+      const res = makeResponse(`export { b } from "./b.js";`);
+      Object.defineProperty(res, "url", { value: "https://example.com/v2/a.js" });
+      return res;
+    }
+    if (url === "https://example.com/v2/b.js") {
+      return makeResponse(`export const b = "b-v2";`);
+    }
+    throw new Error("unexpected url " + url);
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { b } from "example"; console.log(b);\n'
+    );
+
+    const importMapEsbuildPluginParams: ImportMapEsbuildPluginParams = {
+      importMap: {
+        imports: {
+          example: "https://example.com/latest/a.js",
+        },
+      },
+      baseDir: tmpDir.dir,
+      enableHttp: true,
+      cache: tmpDir.resolve("./.http-cache"),
+    };
+
+    // Populate the cache
+    await runBuild(tmpDir.resolve("./index.js"), { importMapEsbuildPluginParams });
+
+    setFetchMock(async (info) => {
+      throw new Error("unexpected fetch " + String(info));
+    });
+
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        ...importMapEsbuildPluginParams,
+        offline: true,
+      },
+    });
+
+    assert.match(outputText, /b-v2/);
+  });
+});
+
+test("offline mode fails with a clear error when an entry is missing", async () => {
+  setFetchMock(async (info) => {
+    throw new Error("unexpected fetch " + String(info));
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import "example";\n'
+    );
+
+    await assert.rejects(
+      () =>
+        runBuild(tmpDir.resolve("./index.js"), {
+          importMapEsbuildPluginParams: {
+            importMap: {
+              imports: {
+                example: "https://example.com/a.js",
+              },
+            },
+            baseDir: tmpDir.dir,
+            enableHttp: true,
+            cache: "./.http-cache",
+            offline: true,
+          },
+        }),
+      /https:\/\/example\.com\/a\.js is not in the HTTP cache/,
+    );
+  });
+});
+
+test("offline mode requires the cache option", () => {
+  assert.throws(
+    () => importMapEsbuildPlugin({ enableHttp: true, offline: true }),
+    /offline: true requires a cache directory/,
+  );
+});
+
+test("lockfile records resolved URL and sha384 hash of each downloaded module", async () => {
+  setFetchMock(async (info) => {
+    const url = String(info);
+    if (url === "https://example.com/latest/a.js") {
+      const res = makeResponse(`export const a = 1;`);
+      Object.defineProperty(res, "url", { value: "https://example.com/v1/a.js" });
+      return res;
+    }
+    throw new Error("unexpected url " + url);
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { a } from "example"; console.log(a);\n'
+    );
+
+    await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: {
+            example: "https://example.com/latest/a.js",
+          },
+        },
+        baseDir: tmpDir.dir,
+        enableHttp: true,
+        lockfile: "./importmap.lock.json",
+      },
+    });
+
+    const lockfile = JSON.parse(await readFile(tmpDir.resolve("./importmap.lock.json"), "utf8"));
+    assert.deepEqual(lockfile, {
+      version: 1,
+      remote: {
+        "https://example.com/latest/a.js": {
+          resolvedUrl: "https://example.com/v1/a.js",
+          integrity: "sha384-" + createHash("sha384").update("export const a = 1;").digest("base64"),
+        },
+      },
+    });
+  });
+});
+
+test("lockfile integrity mismatch fails the build", async () => {
+  let body = "export const a = 1;";
+  setFetchMock(async () => makeResponse(body));
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { a } from "example"; console.log(a);\n'
+    );
+
+    const importMapEsbuildPluginParams: ImportMapEsbuildPluginParams = {
+      importMap: {
+        imports: {
+          example: "https://example.com/a.js",
+        },
+      },
+      baseDir: tmpDir.dir,
+      enableHttp: true,
+      lockfile: "./importmap.lock.json",
+    };
+
+    await runBuild(tmpDir.resolve("./index.js"), { importMapEsbuildPluginParams });
+
+    // Same bytes: passes
+    await runBuild(tmpDir.resolve("./index.js"), { importMapEsbuildPluginParams });
+
+    // The CDN now serves different bytes
+    body = "export const a = 2;";
+    await assert.rejects(
+      () => runBuild(tmpDir.resolve("./index.js"), { importMapEsbuildPluginParams }),
+      /integrity mismatch for https:\/\/example\.com\/a\.js .*expected sha384-.*, got sha384-/,
+    );
+  });
+});
+
+test("lockfile fails the build when a URL now redirects somewhere else", async () => {
+  let redirectTo = "https://example.com/v1/a.js";
+  setFetchMock(async () => {
+    const res = makeResponse(`export const a = 1;`);
+    Object.defineProperty(res, "url", { value: redirectTo });
+    return res;
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { a } from "example"; console.log(a);\n'
+    );
+
+    const importMapEsbuildPluginParams: ImportMapEsbuildPluginParams = {
+      importMap: {
+        imports: {
+          example: "https://example.com/latest/a.js",
+        },
+      },
+      baseDir: tmpDir.dir,
+      enableHttp: true,
+      lockfile: "./importmap.lock.json",
+    };
+
+    await runBuild(tmpDir.resolve("./index.js"), { importMapEsbuildPluginParams });
+
+    redirectTo = "https://example.com/v2/a.js";
+    await assert.rejects(
+      () => runBuild(tmpDir.resolve("./index.js"), { importMapEsbuildPluginParams }),
+      /resolved to https:\/\/example\.com\/v2\/a\.js, but the lockfile .* expects https:\/\/example\.com\/v1\/a\.js/,
+    );
+  });
+});
+
+test("frozenLockfile refuses to fetch URLs the lockfile doesn't list", async () => {
+  const calls: string[] = [];
+  setFetchMock(async (info) => {
+    calls.push(String(info));
+    return makeResponse(`export const x = 1;`);
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import "example-a";\n'
+    );
+    await tmpDir.createFile(
+      "./index2.js",
+      'import "example-a";\nimport "example-b";\n'
+    );
+
+    const importMapEsbuildPluginParams: ImportMapEsbuildPluginParams = {
+      importMap: {
+        imports: {
+          "example-a": "https://example.com/a.js",
+          "example-b": "https://example.com/b.js",
+        },
+      },
+      baseDir: tmpDir.dir,
+      enableHttp: true,
+      lockfile: "./importmap.lock.json",
+    };
+
+    // Lock only a.js
+    await runBuild(tmpDir.resolve("./index.js"), { importMapEsbuildPluginParams });
+
+    await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: { ...importMapEsbuildPluginParams, frozenLockfile: true },
+    });
+
+    await assert.rejects(
+      () => runBuild(tmpDir.resolve("./index2.js"), {
+        importMapEsbuildPluginParams: { ...importMapEsbuildPluginParams, frozenLockfile: true },
+      }),
+      /https:\/\/example\.com\/b\.js is not listed in the lockfile/,
+    );
+
+    assert.ok(!calls.includes("https://example.com/b.js"));
+  });
+});
+
+test("import map integrity passes for matching hashes", async () => {
+  setFetchMock(async () => makeResponse(`export const a = "checked";`));
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { a } from "example"; console.log(a);\n'
+    );
+
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: {
+            example: "https://example.com/a.js",
+          },
+          integrity: {
+            "https://example.com/a.js":
+              "sha256-" + createHash("sha256").update(`export const a = "checked";`).digest("base64"),
+          },
+        },
+        baseDir: tmpDir.dir,
+        enableHttp: true,
+      },
+    });
+
+    assert.match(outputText, /checked/);
+  });
+});
+
+test("import map integrity mismatch fails the build naming URL, expected and actual hash", async () => {
+  setFetchMock(async (info) => {
+    const url = String(info);
+    if (url === "https://example.com/a.js") {
+      return makeResponse(`export { b } from "./b.js";`);
+    }
+    return makeResponse(`export const b = "tampered";`);
+  });
+
+  const expected = "sha512-" + createHash("sha512").update(`export const b = "original";`).digest("base64");
+  const actual = "sha512-" + createHash("sha512").update(`export const b = "tampered";`).digest("base64");
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { b } from "example"; console.log(b);\n'
+    );
+
+    await assert.rejects(
+      () => runBuild(tmpDir.resolve("./index.js"), {
+        importMapEsbuildPluginParams: {
+          importMap: {
+            imports: {
+              example: "https://example.com/a.js",
+            },
+            integrity: {
+              // Applies to transitive dependencies too
+              "https://example.com/b.js": expected,
+            },
+          },
+          baseDir: tmpDir.dir,
+          enableHttp: true,
+        },
+      }),
+      (err: any) => {
+        const msg = String(err);
+        assert.match(msg, /integrity mismatch for https:\/\/example\.com\/b\.js/);
+        assert.ok(msg.includes(`expected ${expected}`));
+        assert.ok(msg.includes(`got ${actual}`));
+        return true;
+      },
+    );
+  });
+});
+
+test("importMapPath resolves relative targets against the import map file", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./config/override.js", 'export const which = "next-to-map";\n');
+    await tmpDir.createFile("./override.js", 'export const which = "base-dir";\n');
+    await tmpDir.createFile(
+      "./config/importmap.json",
+      JSON.stringify({ imports: { pkg: "./override.js" } }),
+    );
+    await tmpDir.createFile(
+      "./index.js",
+      'import { which } from "pkg"; console.log(which);\n'
+    );
+
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        // Relative to baseDir
+        importMapPath: "./config/importmap.json",
+        baseDir: tmpDir.dir,
+      },
+    });
+
+    assert.match(outputText, /next-to-map/);
+    assert.doesNotMatch(outputText, /base-dir/);
+  });
+});
+
+test("importMapPath loads the import map from an HTML document", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./web/vendor/pkg.js", 'export const which = "from-html";\n');
+    await tmpDir.createFile(
+      "./web/index.html",
+      '<script type="importmap">{ "imports": { "pkg": "./vendor/pkg.js" } }</script>\n',
+    );
+    await tmpDir.createFile(
+      "./index.js",
+      'import { which } from "pkg"; console.log(which);\n'
+    );
+
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMapPath: tmpDir.resolve("./web/index.html"),
+      },
+    });
+
+    assert.match(outputText, /from-html/);
+  });
+});
+
+test("importMapPath is re-read on rebuild", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./a.js", 'export const which = "first";\n');
+    await tmpDir.createFile("./b.js", 'export const which = "second";\n');
+    await tmpDir.createFile("./importmap.json", JSON.stringify({ imports: { pkg: "./a.js" } }));
+    await tmpDir.createFile(
+      "./index.js",
+      'import { which } from "pkg"; console.log(which);\n'
+    );
+
+    const ctx = await esbuild.context({
+      entryPoints: [tmpDir.resolve("./index.js")],
+      write: false,
+      bundle: true,
+      format: 'esm',
+      logLevel: 'silent',
+      plugins: [
+        importMapEsbuildPlugin({
+          importMapPath: tmpDir.resolve("./importmap.json"),
+        }),
+      ],
+    });
+    try {
+      const first = await ctx.rebuild();
+      assert.match(first.outputFiles[0].text, /first/);
+
+      await tmpDir.createFile("./importmap.json", JSON.stringify({ imports: { pkg: "./b.js" } }));
+
+      const second = await ctx.rebuild();
+      assert.match(second.outputFiles[0].text, /second/);
+    } finally {
+      await ctx.dispose();
+    }
+  });
+});
+
+test("importMapUrl resolves relative targets against the import map URL", async () => {
+  const calls: string[] = [];
+  setFetchMock(async (info) => {
+    const url = String(info);
+    calls.push(url);
+    if (url === "https://example.com/maps/importmap.json") {
+      return makeResponse(JSON.stringify({ imports: { pkg: "./pkg.js" } }), { contentType: "application/importmap+json" });
+    }
+    if (url === "https://example.com/maps/pkg.js") {
+      return makeResponse(`export const which = "remote-relative";`);
+    }
+    throw new Error("unexpected url " + url);
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { which } from "pkg"; console.log(which);\n'
+    );
+
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMapUrl: "https://example.com/maps/importmap.json",
+        baseDir: tmpDir.dir,
+        enableHttp: true,
+      },
+    });
+
+    assert.match(outputText, /remote-relative/);
+  });
+});
+
+test("import map file errors fail the build", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./importmap.json", JSON.stringify({ imports: { "pkg/": "./pkg" } }));
+    await tmpDir.createFile("./index.js", 'console.log("ok");\n');
+
+    await assert.rejects(
+      () => runBuild(tmpDir.resolve("./index.js"), {
+        importMapEsbuildPluginParams: {
+          importMapPath: "./importmap.json",
+          baseDir: tmpDir.dir,
+        },
+      }),
+      /prefix key "pkg\/" must map to a value ending with "\/"/,
+    );
+  });
+});
+
+test("only one import map source may be set", () => {
+  assert.throws(
+    () => importMapEsbuildPlugin({ importMap: {}, importMapPath: "./importmap.json" }),
+    /only one of importMap, importMapPath and importMapUrl may be set/,
+  );
+});
+
+test("multiple import maps are merged, with earlier rules winning", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./base/a.js", 'export const a = "a-base";\n');
+    await tmpDir.createFile("./app/a.js", 'export const a = "a-app";\n');
+    await tmpDir.createFile("./app/b.js", 'export const b = "b-app";\n');
+    await tmpDir.createFile("./app/c.js", 'export const c = "c-app-scoped";\n');
+    await tmpDir.createFile("./base/c.js", 'export const c = "c-base-scoped";\n');
+    await tmpDir.createFile("./app/d.js", 'export const d = "d-app-scoped";\n');
+    await tmpDir.createFile(
+      "./app/importmap.json",
+      JSON.stringify({
+        imports: {
+          a: "./a.js", // conflicts with the base map, ignored
+          b: "./b.js",
+        },
+        scopes: {
+          "../src/": {
+            c: "./c.js", // conflicts with the base map, ignored
+            d: "./d.js",
+          },
+        },
+      }),
+    );
+    await tmpDir.createFile(
+      "./src/index.js",
+      [
+        'import { a } from "a";',
+        'import { b } from "b";',
+        'import { c } from "c";',
+        'import { d } from "d";',
+        'console.log(a, b, c, d);',
+        "",
+      ].join("\n"),
+    );
+
+    const { outputText } = await runBuild(tmpDir.resolve("./src/index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: [
+          {
+            imports: {
+              a: "./base/a.js",
+            },
+            scopes: {
+              "./src/": {
+                c: "./base/c.js",
+              },
+            },
+          },
+          { path: "./app/importmap.json" },
+        ],
+        baseDir: tmpDir.dir,
+      },
+    });
+
+    assert.match(outputText, /a-base/);
+    assert.doesNotMatch(outputText, /a-app/);
+    assert.match(outputText, /b-app/);
+    assert.match(outputText, /c-base-scoped/);
+    assert.doesNotMatch(outputText, /c-app-scoped/);
+    assert.match(outputText, /d-app-scoped/);
+  });
+});
+
+test("import map conflicts can be reported as esbuild warnings or through onLog", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./a1.js", 'export const a = "a1";\n');
+    await tmpDir.createFile("./a2.js", 'export const a = "a2";\n');
+    await tmpDir.createFile(
+      "./index.js",
+      'import { a } from "a"; console.log(a);\n'
+    );
+
+    const importMap = [
+      { imports: { a: "./a1.js" } },
+      { imports: { a: "./a2.js" } },
+    ];
+
+    const { result } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap,
+        baseDir: tmpDir.dir,
+        reportConflicts: 'warning',
+      },
+    });
+    assert.equal(result.warnings.length, 1);
+    assert.match(
+      result.warnings[0].text,
+      /"a" from importMap\[1\] is ignored, as importMap\[0\] already maps it to ".*\/a1\.js"/,
+    );
+
+    const messages: string[] = [];
+    const logged = await esbuild.build({
+      entryPoints: [tmpDir.resolve("./index.js")],
+      write: false,
+      bundle: true,
+      logLevel: 'silent',
+      plugins: [
+        importMapEsbuildPlugin({
+          importMap,
+          baseDir: tmpDir.dir,
+          reportConflicts: 'log',
+          onLog(message) { messages.push(message); },
+        }),
+      ],
+    });
+    assert.equal(logged.warnings.length, 0);
+    assert.ok(messages.some(message => /"a" from importMap\[1\] is ignored/.test(message)));
+  });
+});
+
+test("invalid import map entries are esbuild warnings, and entries with invalid targets block their key", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./index.js", 'import "a";\n');
+
+    await assert.rejects(
+      () =>
+        runBuild(tmpDir.resolve("./index.js"), {
+          importMapEsbuildPluginParams: {
+            importMap: { imports: { "": "./empty.js", a: "" } },
+            baseDir: tmpDir.dir,
+          },
+        }),
+      (err: esbuild.BuildFailure) => {
+        assert.equal(err.warnings.length, 2);
+        assert.match(err.warnings[0].text, /import map key "" is invalid and is ignored/);
+        assert.match(err.warnings[1].text, /import map entry "a" has an invalid target ""/);
+        assert.match(err.errors[0].text, /specifier "a" is blocked by the import map entry "a"/);
+        return true;
+      },
+    );
+  });
+});
+
+test("all problems with an import map file are reported at once, pointing at their JSON lines", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./index.js", 'console.log("ok");\n');
+    await tmpDir.createFile("./importmap.json", [
+      '{',
+      '  "imports": {',
+      '    "": "./empty.js",',
+      '    "pkg/": "./pkg",',
+      '    "a": "https://[bad"',
+      '  },',
+      '  "scopes": {',
+      '    "./legacy/": []',
+      '  },',
+      '  "extra": {}',
+      '}',
+      '',
+    ].join('\n'));
+
+    await assert.rejects(
+      () =>
+        runBuild(tmpDir.resolve("./index.js"), {
+          importMapEsbuildPluginParams: {
+            importMapPath: "./importmap.json",
+            baseDir: tmpDir.dir,
+          },
+        }),
+      (err: esbuild.BuildFailure) => {
+        assert.deepEqual(
+          err.errors.map(error => [error.pluginName, error.detail.code, error.location?.line]),
+          [
+            ["importmap-esbuild-plugin", "prefix-target", 4],
+            ["importmap-esbuild-plugin", "invalid-field", 8],
+          ],
+        );
+        assert.match(err.errors[0].location?.file ?? '', /importmap\.json$/);
+        // esbuild sorts messages by location
+        assert.deepEqual(
+          err.warnings
+            .filter(warning => warning.pluginName === "importmap-esbuild-plugin")
+            .map(warning => [warning.detail.code, warning.location?.line]),
+          [
+            ["invalid-key", 3],
+            ["invalid-target", 5],
+            ["unknown-field", 10],
+          ],
+        );
+        assert.deepEqual(err.errors[0].detail.path, ["imports", "pkg/"]);
+        assert.equal(err.errors[0].location?.lineText, '    "pkg/": "./pkg",');
+        assert.equal(err.errors[0].location?.column, 4);
+        assert.equal(err.errors[0].location?.length, 6);
+        assert.match(err.errors[1].text, /Scope "\.\/legacy\/" in the import map in .* must be a JSON object/);
+        assert.ok(err.warnings.some(warning => /import map field "extra" is not supported/.test(warning.text)));
+        return true;
+      },
+    );
+  });
+});
+
+test("problems with inline import maps are reported without a location", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./index.js", 'console.log("ok");\n');
+
+    await assert.rejects(
+      () =>
+        runBuild(tmpDir.resolve("./index.js"), {
+          importMapEsbuildPluginParams: {
+            importMap: { imports: [] as unknown as Record<string, string> },
+            baseDir: tmpDir.dir,
+          },
+        }),
+      (err: esbuild.BuildFailure) => {
+        assert.equal(err.errors.length, 1);
+        assert.equal(err.errors[0].text, '"imports" in the import map in importMap must be a JSON object.');
+        assert.deepEqual(err.errors[0].detail, { code: "invalid-field", source: "importMap", path: ["imports"] });
+        assert.equal(err.errors[0].location, null);
+        return true;
+      },
+    );
+  });
+});
+
+test("null entries block specifiers, with an error at the import", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./index.js", 'import "./ok.js";\nimport "lodash";\n');
+    await tmpDir.createFile("./ok.js", 'console.log("ok");\n');
+
+    await assert.rejects(
+      () =>
+        runBuild(tmpDir.resolve("./index.js"), {
+          importMapEsbuildPluginParams: {
+            importMap: { imports: { lodash: null } },
+            baseDir: tmpDir.dir,
+          },
+        }),
+      (err: esbuild.BuildFailure) => {
+        assert.equal(err.errors.length, 1);
+        assert.equal(
+          err.errors[0].text,
+          'importmap-esbuild-plugin: specifier "lodash" is blocked by the import map entry "lodash".',
+        );
+        assert.equal(err.errors[0].location?.line, 2);
+        assert.equal(err.errors[0].location?.lineText, 'import "lodash";');
+        assert.equal(err.warnings.length, 0);
+        return true;
+      },
+    );
+  });
+});
+
+test("null prefix entries block subpaths, and null entries in scopes block only inside the scope", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./vendor/lodash/fp.js", 'export default "fp";\n');
+    await tmpDir.createFile("./legacy/a.js", 'import fp from "lodash/fp.js"; export default fp;\n');
+    await tmpDir.createFile("./index.js", 'import fp from "lodash/fp.js"; import a from "./legacy/a.js"; console.log(fp, a);\n');
+    await tmpDir.createFile("./blocked.js", 'import "internal/secret.js";\n');
+
+    const importMap = {
+      imports: { "lodash/": "./vendor/lodash/", "internal/": null },
+      scopes: { "./legacy/": { "lodash/": null } },
+    };
+
+    await assert.rejects(
+      () =>
+        runBuild(tmpDir.resolve("./index.js"), {
+          importMapEsbuildPluginParams: { importMap, baseDir: tmpDir.dir },
+        }),
+      (err: esbuild.BuildFailure) => {
+        assert.equal(err.errors.length, 1);
+        assert.match(err.errors[0].text, /specifier "lodash\/fp\.js" is blocked by the import map entry "lodash\/" in scope ".*\/legacy\/"/);
+        assert.match(err.errors[0].location?.file ?? '', /legacy[\\/]a\.js$/);
+        return true;
+      },
+    );
+
+    await assert.rejects(
+      () =>
+        runBuild(tmpDir.resolve("./blocked.js"), {
+          importMapEsbuildPluginParams: { importMap, baseDir: tmpDir.dir },
+        }),
+      /specifier "internal\/secret\.js" is blocked by the import map entry "internal\/"/,
+    );
+  });
+});
+
+test("prefix mapping errors in merged import maps name their source", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile('./index.js', 'console.log("ok");\n');
+
+    await assert.rejects(
+      () =>
+        runBuild(tmpDir.resolve('./index.js'), {
+          importMapEsbuildPluginParams: {
+            importMap: [
+              { imports: { 'a/': './a/' } },
+              { imports: { 'pkg/': './pkg' } },
+            ],
+            baseDir: tmpDir.dir,
+          },
+        }),
+      /prefix key "pkg\/" must map to a value ending with "\/". Got ".*" \(in importMap\[1\]\)/,
+    );
+  });
+});
+
+test("prefix mapping errors on entries that the merge ignores are reported as conflicts", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile('./x/a.js', 'export default "x-a";\n');
+    await tmpDir.createFile('./index.js', 'import a from "x/a.js"; console.log(a);\n');
+
+    const { outputText, result } = await runBuild(tmpDir.resolve('./index.js'), {
+      importMapEsbuildPluginParams: {
+        importMap: [
+          { imports: { 'x/': './x/' } },
+          { imports: { 'x/': './bad' } },
+        ],
+        baseDir: tmpDir.dir,
+        reportConflicts: 'warning',
+      },
+    });
+    assert.match(outputText, /"x-a"/);
+    assert.equal(result.warnings.length, 1);
+    assert.match(result.warnings[0].text, /"x\/" from importMap\[1\] is ignored, as importMap\[0\] already maps it/);
+  });
+});
+
+test("bare specifier targets are resolved from node_modules in baseDir, honoring package exports", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./node_modules/preact/package.json",
+      JSON.stringify({
+        name: "preact",
+        exports: {
+          "./compat": {
+            import: "./compat/index.mjs",
+            require: "./compat/index.cjs",
+          },
+        },
+      }),
+    );
+    await tmpDir.createFile("./node_modules/preact/compat/index.mjs", 'export const which = "preact-compat-esm";\n');
+    await tmpDir.createFile("./node_modules/preact/compat/index.cjs", 'exports.which = "preact-compat-cjs";\n');
+    await tmpDir.createFile(
+      "./src/index.js",
+      'import { which } from "react"; console.log(which);\n'
+    );
+
+    const { outputText } = await runBuild(tmpDir.resolve("./src/index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: {
+            react: "preact/compat",
+          },
+        },
+        baseDir: tmpDir.dir,
+      },
+    });
+
+    assert.match(outputText, /preact-compat-esm/);
+  });
+});
+
+test("bare specifier targets are not mapped again by the import map", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./node_modules/pkg/package.json",
+      JSON.stringify({ name: "pkg", main: "./index.js" }),
+    );
+    await tmpDir.createFile("./node_modules/pkg/index.js", 'export const which = "from-node-modules";\n');
+    await tmpDir.createFile("./local/pkg.js", 'export const which = "local";\n');
+    await tmpDir.createFile(
+      "./index.js",
+      'import { which } from "alias"; console.log(which);\n'
+    );
+
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: {
+            // Mapping "pkg" to itself would recurse forever if the import
+            // map were applied to targets again
+            alias: "pkg",
+            pkg: "pkg",
+          },
+        },
+        baseDir: tmpDir.dir,
+      },
+    });
+
+    assert.match(outputText, /from-node-modules/);
+  });
+});
+
+test("unresolvable bare specifier targets fail the build", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import "react";\n'
+    );
+
+    await assert.rejects(
+      () => runBuild(tmpDir.resolve("./index.js"), {
+        importMapEsbuildPluginParams: {
+          importMap: {
+            imports: {
+              react: "preact/compat",
+            },
+          },
+          baseDir: tmpDir.dir,
+        },
+      }),
+      /Could not resolve "preact\/compat"/,
+    );
+  });
+});
+
+test("local targets are resolved with extensions and index files", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./src/utils/foo.ts", 'export const foo: string = "utils-foo";\n');
+    await tmpDir.createFile("./src/utils/bar/index.ts", 'export const bar: string = "utils-bar-index";\n');
+    await tmpDir.createFile("./src/lib.tsx", 'export const lib = "lib-tsx";\n');
+    await tmpDir.createFile(
+      "./index.js",
+      [
+        'import { foo } from "utils/foo";',
+        'import { bar } from "utils/bar";',
+        'import { lib } from "lib";',
+        'console.log(foo, bar, lib);',
+        "",
+      ].join("\n"),
+    );
+
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: {
+            "utils/": "./src/utils/",
+            lib: "./src/lib",
+          },
+        },
+        baseDir: tmpDir.dir,
+      },
+    });
+
+    assert.match(outputText, /utils-foo/);
+    assert.match(outputText, /utils-bar-index/);
+    assert.match(outputText, /lib-tsx/);
+  });
+});
+
+test("local targets honor esbuild's resolveExtensions", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./src/foo.web.js", 'export const foo = "web";\n');
+    await tmpDir.createFile("./src/foo.js", 'export const foo = "default";\n');
+    await tmpDir.createFile(
+      "./index.js",
+      'import { foo } from "foo"; console.log(foo);\n'
+    );
+
+    const result = await esbuild.build({
+      entryPoints: [tmpDir.resolve("./index.js")],
+      write: false,
+      bundle: true,
+      logLevel: 'silent',
+      resolveExtensions: [".web.js", ".js"],
+      plugins: [
+        importMapEsbuildPlugin({
+          importMap: { imports: { foo: "./src/foo" } },
+          baseDir: tmpDir.dir,
+        }),
+      ],
+    });
+
+    assert.match(result.outputFiles[0].text, /"web"/);
+  });
+});
+
+test("resolveLocalTargets: false passes local targets through verbatim", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./src/utils/foo.ts", 'export const foo = "utils-foo";\n');
+    await tmpDir.createFile(
+      "./index.js",
+      'import { foo } from "utils/foo"; console.log(foo);\n'
+    );
+
+    await assert.rejects(
+      () => runBuild(tmpDir.resolve("./index.js"), {
+        importMapEsbuildPluginParams: {
+          importMap: {
+            imports: {
+              "utils/": "./src/utils/",
+            },
+          },
+          baseDir: tmpDir.dir,
+          resolveLocalTargets: false,
+        },
+      }),
+      /Cannot read file: .*src\/utils\/foo/,
+    );
+  });
+});
+
+test("unmapped bare imports inside http modules fail with an error naming the importer", async () => {
+  setFetchMock(async () => makeResponse(`import React from "react"; export default React;`));
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import x from "example"; console.log(x);\n'
+    );
+
+    await assert.rejects(
+      () => runBuild(tmpDir.resolve("./index.js"), {
+        importMapEsbuildPluginParams: {
+          importMap: {
+            imports: {
+              example: "https://example.com/a.js",
+            },
+          },
+          baseDir: tmpDir.dir,
+          enableHttp: true,
+        },
+      }),
+      (err: esbuild.BuildFailure) => {
+        assert.equal(err.errors.length, 1);
+        assert.match(
+          err.errors[0].text,
+          /bare specifier "react" imported by https:\/\/example\.com\/a\.js is not in the import map\.$/,
+        );
+        assert.match(err.errors[0].notes[0].text, /Add an import map entry for it/);
+        assert.equal(err.errors[0].location?.lineText, 'import React from "react"; export default React;');
+        return true;
+      },
+    );
+  });
+});
+
+test("remoteBareSpecifiers: 'node_modules' resolves unmapped bare imports inside http modules from baseDir", async () => {
+  setFetchMock(async () => makeResponse(`export { which } from "dep";`));
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./node_modules/dep/package.json",
+      JSON.stringify({ name: "dep", main: "./index.js" }),
+    );
+    await tmpDir.createFile("./node_modules/dep/index.js", 'export const which = "dep-from-node-modules";\n');
+    await tmpDir.createFile(
+      "./index.js",
+      'import { which } from "example"; console.log(which);\n'
+    );
+
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: {
+            example: "https://example.com/a.js",
+          },
+        },
+        baseDir: tmpDir.dir,
+        enableHttp: true,
+        remoteBareSpecifiers: 'node_modules',
+      },
+    });
+
+    assert.match(outputText, /dep-from-node-modules/);
+  });
+});
+
+test("remoteBareSpecifiers: { cdn } fetches unmapped bare imports inside http modules from a CDN", async () => {
+  const calls: string[] = [];
+  setFetchMock(async (info) => {
+    const url = String(info);
+    calls.push(url);
+    if (url === "https://example.com/a.js") {
+      return makeResponse(`
+export { hooks } from "preact/hooks";
+export { signal } from "@preact/signals";
+`);
+    }
+    if (url === "https://esm.sh/preact/hooks") {
+      return makeResponse(`export const hooks = "cdn-hooks";`);
+    }
+    if (url === "https://esm.sh/@preact/signals") {
+      return makeResponse(`export const signal = "cdn-signals";`);
+    }
+    throw new Error("unexpected url " + url);
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { hooks, signal } from "example"; console.log(hooks, signal);\n'
+    );
+
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: {
+            example: "https://example.com/a.js",
+          },
+        },
+        baseDir: tmpDir.dir,
+        enableHttp: true,
+        remoteBareSpecifiers: { cdn: "https://esm.sh/{name}" },
+      },
+    });
+
+    assert.match(outputText, /cdn-hooks/);
+    assert.match(outputText, /cdn-signals/);
+  });
+});
+
+test("remoteBareSpecifiers CDN template places the subpath at {path}", async () => {
+  const calls: string[] = [];
+  setFetchMock(async (info) => {
+    const url = String(info);
+    calls.push(url);
+    if (url === "https://example.com/a.js") {
+      return makeResponse(`export { hooks } from "preact/hooks";`);
+    }
+    return makeResponse(`export const hooks = "cdn-hooks";`);
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { hooks } from "example"; console.log(hooks);\n'
+    );
+
+    await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: {
+            example: "https://example.com/a.js",
+          },
+        },
+        baseDir: tmpDir.dir,
+        enableHttp: true,
+        remoteBareSpecifiers: { cdn: "https://cdn.example.com/{name}@latest{path}?bundle" },
+      },
+    });
+
+    assert.deepEqual(calls, [
+      "https://example.com/a.js",
+      "https://cdn.example.com/preact@latest/hooks?bundle",
+    ]);
+  });
+});
+
+test("resolves root-relative and protocol-relative imports inside http modules against the final URL", async () => {
+  const calls: string[] = [];
+  setFetchMock(async (info) => {
+    const url = String(info);
+    calls.push(url);
+    if (url === "https://esm.sh/react@18") {
+      // esm.sh redirects and then imports root-relative paths
+      const res = makeResponse(`
+export { react } from "/v135/react@18/es2022/react.mjs";
+export { other } from "//cdn.example.com/other.js";
+`);
+      Object.defineProperty(res, "url", { value: "https://esm.sh/stable/react@18" });
+      return res;
+    }
+    if (url === "https://esm.sh/v135/react@18/es2022/react.mjs") {
+      return makeResponse(`export const react = "react-mjs";`);
+    }
+    if (url === "https://cdn.example.com/other.js") {
+      return makeResponse(`export const other = "protocol-relative";`);
+    }
+    throw new Error("unexpected url " + url);
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { react, other } from "react"; console.log(react, other);\n'
+    );
+
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: {
+            react: "https://esm.sh/react@18",
+          },
+        },
+        baseDir: tmpDir.dir,
+        enableHttp: true,
+      },
+    });
+
+    assert.match(outputText, /react-mjs/);
+    assert.match(outputText, /protocol-relative/);
+  });
+});
+
+test("the import map applies to root-relative imports inside http modules", async () => {
+  const calls: string[] = [];
+  setFetchMock(async (info) => {
+    const url = String(info);
+    calls.push(url);
+    if (url === "https://esm.sh/app") {
+      return makeResponse(`export { react } from "/v135/react@18/es2022/react.mjs";`);
+    }
+    throw new Error("unexpected url " + url);
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./react-shim.js", 'export const react = "local-shim";\n');
+    await tmpDir.createFile(
+      "./index.js",
+      'import { react } from "app"; console.log(react);\n'
+    );
+
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: {
+            app: "https://esm.sh/app",
+            "https://esm.sh/v135/react@18/": "./react-shim-dir/",
+            "https://esm.sh/v135/react@18/es2022/react.mjs": "./react-shim.js",
+          },
+        },
+        baseDir: tmpDir.dir,
+        enableHttp: true,
+      },
+    });
+
+    assert.match(outputText, /local-shim/);
+    assert.deepEqual(calls, ["https://esm.sh/app"]);
+  });
+});
+
+test("allowUrlImports fetches https imports written directly in local files", async () => {
+  const fetched: string[] = [];
+  setFetchMock(async (info) => {
+    fetched.push(String(info));
+    return makeResponse('export const lit = "from-esm-sh";');
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { lit } from "https://esm.sh/lit"; console.log(lit);\n'
+    );
+
+    const { outputText } = await runBuild(
+      tmpDir.resolve("./index.js"),
+      {
+        importMapEsbuildPluginParams: {
+          baseDir: tmpDir.dir,
+          enableHttp: true,
+          allowUrlImports: true,
+        },
+      },
+    );
+
+    assert.deepEqual(fetched, ["https://esm.sh/lit"]);
+    assert.match(outputText, /from-esm-sh/);
+  });
+});
+
+test("allowUrlImports applies URL keys in the import map first", async () => {
+  const fetched: string[] = [];
+  setFetchMock(async (info) => {
+    fetched.push(String(info));
+    return makeResponse('export const lit = "from-mirror";');
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { lit } from "https://esm.sh/lit"; console.log(lit);\n'
+    );
+
+    const { outputText } = await runBuild(
+      tmpDir.resolve("./index.js"),
+      {
+        importMapEsbuildPluginParams: {
+          importMap: {
+            imports: {
+              "https://esm.sh/lit": "https://mirror.example.com/lit.js",
+            },
+          },
+          baseDir: tmpDir.dir,
+          enableHttp: true,
+          allowUrlImports: true,
+        },
+      },
+    );
+
+    assert.deepEqual(fetched, ["https://mirror.example.com/lit.js"]);
+    assert.match(outputText, /from-mirror/);
+  });
+});
+
+test("https imports in local files are left external without allowUrlImports", async () => {
+  setFetchMock(async () => {
+    assert.fail("fetch should not be called");
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import "https://esm.sh/lit";\n'
+    );
+
+    const { outputText } = await runBuild(
+      tmpDir.resolve("./index.js"),
+      {
+        importMapEsbuildPluginParams: {
+          baseDir: tmpDir.dir,
+          enableHttp: true,
+        },
+      },
+    );
+
+    // esbuild keeps URL imports external by default
+    assert.match(outputText, /import "https:\/\/esm\.sh\/lit"/);
+  });
+});
+
+test("out-of-range HTTP options are rejected", () => {
+  assert.throws(
+    () => importMapEsbuildPlugin({ maxConcurrentFetches: 0 }),
+    /^Error: importmap-esbuild-plugin: maxConcurrentFetches must be an integer >= 1\. Got 0\.$/,
+  );
+  assert.throws(
+    () => importMapEsbuildPlugin({ retries: -1 }),
+    /importmap-esbuild-plugin: retries must be an integer >= 0/,
+  );
+});
+
+test("allowUrlImports requires enableHttp", () => {
+  assert.throws(
+    () => importMapEsbuildPlugin({ allowUrlImports: true }),
+    /allowUrlImports: true requires enableHttp: true/,
+  );
+});
+
+test("deniedHosts blocks import map targets on a denied host", async () => {
+  setFetchMock(async () => {
+    assert.fail("fetch should not be called");
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import "lib";\n'
+    );
+
+    await assert.rejects(
+      () => runBuild(
+        tmpDir.resolve("./index.js"),
+        {
+          importMapEsbuildPluginParams: {
+            importMap: { imports: { lib: "https://untrusted.example.com/lib.js" } },
+            baseDir: tmpDir.dir,
+            enableHttp: true,
+            deniedHosts: ["*.example.com"],
+          },
+        },
+      ),
+      (err: any) => {
+        assert.match(
+          err.errors[0].text,
+          /https:\/\/untrusted\.example\.com\/lib\.js matches deniedHosts entry "\*\.example\.com", so it may not be fetched/,
+        );
+        return true;
+      },
+    );
+  });
+});
+
+test("allowedHosts blocks imports inside http modules and reports the import chain", async () => {
+  const fetched: string[] = [];
+  setFetchMock(async (info) => {
+    const url = String(info);
+    fetched.push(url);
+    if (url === "https://esm.sh/lib") {
+      return makeResponse('import "/dep.js"; export default 1;');
+    }
+    if (url === "https://esm.sh/dep.js") {
+      return makeResponse('import "https://other.example.com/x.js";');
+    }
+    return assert.fail(`unexpected fetch ${url}`);
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import "lib";\n'
+    );
+
+    await assert.rejects(
+      () => runBuild(
+        tmpDir.resolve("./index.js"),
+        {
+          importMapEsbuildPluginParams: {
+            importMap: { imports: { lib: "https://esm.sh/lib" } },
+            baseDir: tmpDir.dir,
+            enableHttp: true,
+            allowedHosts: ["esm.sh"],
+          },
+        },
+      ),
+      (err: any) => {
+        const [error] = err.errors;
+        assert.match(error.text, /https:\/\/other\.example\.com\/x\.js does not match any allowedHosts entry/);
+        assert.equal(
+          error.notes[0].text,
+          [
+            "Import chain:",
+            `  ${tmpDir.resolve("./index.js")}`,
+            "  -> https://esm.sh/lib",
+            "  -> https://esm.sh/dep.js",
+            "  -> https://other.example.com/x.js",
+          ].join("\n"),
+        );
+        return true;
+      },
+    );
+    assert.deepEqual(fetched.sort(), ["https://esm.sh/dep.js", "https://esm.sh/lib"]);
+  });
+});
+
+test("allowedHosts blocks redirects to other hosts", async () => {
+  setFetchMock(async () => {
+    const res = makeResponse("export default 1;");
+    Object.defineProperty(res, "url", { value: "https://mirror.example.net/lib.js" });
+    return res;
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import "lib";\n'
+    );
+
+    await assert.rejects(
+      () => runBuild(
+        tmpDir.resolve("./index.js"),
+        {
+          importMapEsbuildPluginParams: {
+            importMap: { imports: { lib: "https://esm.sh/lib" } },
+            baseDir: tmpDir.dir,
+            enableHttp: true,
+            allowedHosts: ["esm.sh"],
+          },
+        },
+      ),
+      /https:\/\/esm\.sh\/lib redirected to https:\/\/mirror\.example\.net\/lib\.js, which does not match any allowedHosts entry/,
+    );
+  });
+});
+
+test("redirects to a denied host are refused before that host is requested", async () => {
+  const requested: { url: string, token: string | null }[] = [];
+  setFetchMock(async (info, init) => {
+    const url = String(info);
+    requested.push({ url, token: new Headers(init?.headers).get("x-token") });
+    if (url === "https://esm.sh/lib") {
+      return new Response(null, { status: 302, headers: { location: "https://evil.example.net/lib.js" } });
+    }
+    return makeResponse("export default 1;");
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./index.js", 'import "lib";\n');
+
+    await assert.rejects(
+      () => runBuild(tmpDir.resolve("./index.js"), {
+        importMapEsbuildPluginParams: {
+          importMap: { imports: { lib: "https://esm.sh/lib" } },
+          baseDir: tmpDir.dir,
+          enableHttp: true,
+          headers: { "x-token": "secret" },
+          deniedHosts: ["evil.example.net"],
+        },
+      }),
+      /https:\/\/esm\.sh\/lib redirected to https:\/\/evil\.example\.net\/lib\.js, which matches deniedHosts entry "evil\.example\.net"/,
+    );
+    assert.deepEqual(requested, [{ url: "https://esm.sh/lib", token: "secret" }]);
+  });
+});
+
+test("fetch option replaces the global fetch, for modules and import maps", async () => {
+  setFetchMock(async () => {
+    assert.fail("global fetch should not be called");
+  });
+
+  const fetched: string[] = [];
+  const customFetch = async (url: string) => {
+    fetched.push(url);
+    if (url === "https://example.com/importmap.json") {
+      return makeResponse(
+        JSON.stringify({ imports: { lib: "https://example.com/lib.js" } }),
+        { contentType: "application/importmap+json" },
+      );
+    }
+    return makeResponse('export const which = "custom-fetch";');
+  };
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { which } from "lib"; console.log(which);\n'
+    );
+
+    const { outputText } = await runBuild(
+      tmpDir.resolve("./index.js"),
+      {
+        importMapEsbuildPluginParams: {
+          importMapUrl: "https://example.com/importmap.json",
+          baseDir: tmpDir.dir,
+          enableHttp: true,
+          fetch: customFetch,
+        },
+      },
+    );
+
+    assert.deepEqual(fetched, ["https://example.com/importmap.json", "https://example.com/lib.js"]);
+    assert.match(outputText, /custom-fetch/);
+  });
+});
+
+test("headers option adds request headers, per URL when given a function", async () => {
+  const requests: { url: string, authorization: string | null, userAgent: string | null }[] = [];
+  setFetchMock(async (info, init) => {
+    const headers = new Headers(init?.headers);
+    requests.push({
+      url: String(info),
+      authorization: headers.get("authorization"),
+      userAgent: headers.get("user-agent"),
+    });
+    return makeResponse("export default 1;");
+  });
+
+  const logs: string[] = [];
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import "private"; import "public";\n'
+    );
+
+    await esbuild.build({
+      entryPoints: [tmpDir.resolve("./index.js")],
+      write: false,
+      bundle: true,
+      format: "esm",
+      logLevel: "silent",
+      plugins: [
+        importMapEsbuildPlugin({
+          importMap: {
+            imports: {
+              private: "https://registry.internal.example/private.js",
+              public: "https://esm.sh/public",
+            },
+          },
+          baseDir: tmpDir.dir,
+          enableHttp: true,
+          headers: (url) => ({
+            "user-agent": "my-build/1.0",
+            ...(new URL(url).hostname === "registry.internal.example" ? { authorization: "Bearer s3cret" } : {}),
+          }),
+          onLog(message) { logs.push(message); },
+        }),
+      ],
+    });
+  });
+
+  requests.sort((a, b) => a.url.localeCompare(b.url));
+  assert.deepEqual(requests, [
+    { url: "https://esm.sh/public", authorization: null, userAgent: "my-build/1.0" },
+    { url: "https://registry.internal.example/private.js", authorization: "Bearer s3cret", userAgent: "my-build/1.0" },
+  ]);
+  assert.ok(logs.length > 0);
+  assert.ok(logs.every(message => !message.includes("s3cret")), "credentials must not be logged");
+});
+
+test("retries recover from a temporarily failing CDN", async () => {
+  let calls = 0;
+  setFetchMock(async () => {
+    calls++;
+    return calls === 1
+      ? makeResponse(null, { status: 503 })
+      : makeResponse('export const which = "after-retry";');
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { which } from "lib"; console.log(which);\n'
+    );
+
+    const { outputText } = await runBuild(
+      tmpDir.resolve("./index.js"),
+      {
+        importMapEsbuildPluginParams: {
+          importMap: { imports: { lib: "https://example.com/lib.js" } },
+          baseDir: tmpDir.dir,
+          enableHttp: true,
+          retries: 2,
+          retryDelayMs: 1,
+        },
+      },
+    );
+
+    assert.equal(calls, 2);
+    assert.match(outputText, /after-retry/);
+  });
+});
+
+test("cache entries are revalidated on every build by default, with If-None-Match and If-Modified-Since", async () => {
+  const requests: { url: string, ifNoneMatch: string | null, ifModifiedSince: string | null }[] = [];
+  let version = 1;
+  setFetchMock(async (info, init) => {
+    const headers = new Headers(init?.headers);
+    requests.push({
+      url: String(info),
+      ifNoneMatch: headers.get("if-none-match"),
+      ifModifiedSince: headers.get("if-modified-since"),
+    });
+    if (headers.get("if-none-match") === `"v${version}"`) {
+      return new Response(null, { status: 304 });
+    }
+    return new Response(`export const which = "v${version}";`, {
+      headers: {
+        "content-type": "application/javascript",
+        "etag": `"v${version}"`,
+        "last-modified": "Wed, 21 Oct 2015 07:28:00 GMT",
+      },
+    });
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { which } from "lib"; console.log(which);\n'
+    );
+
+    const importMapEsbuildPluginParams: ImportMapEsbuildPluginParams = {
+      importMap: { imports: { lib: "https://example.com/lib.js" } },
+      baseDir: tmpDir.dir,
+      enableHttp: true,
+      cache: "./.http-cache",
+    };
+
+    const first = await runBuild(tmpDir.resolve("./index.js"), { importMapEsbuildPluginParams });
+    assert.match(first.outputText, /"v1"/);
+
+    // Not modified: the cached body is reused
+    const second = await runBuild(tmpDir.resolve("./index.js"), { importMapEsbuildPluginParams });
+    assert.match(second.outputText, /"v1"/);
+
+    // Modified: the new body replaces the cached one
+    version = 2;
+    const third = await runBuild(tmpDir.resolve("./index.js"), { importMapEsbuildPluginParams });
+    assert.match(third.outputText, /"v2"/);
+
+    assert.deepEqual(requests, [
+      { url: "https://example.com/lib.js", ifNoneMatch: null, ifModifiedSince: null },
+      { url: "https://example.com/lib.js", ifNoneMatch: '"v1"', ifModifiedSince: "Wed, 21 Oct 2015 07:28:00 GMT" },
+      { url: "https://example.com/lib.js", ifNoneMatch: '"v1"', ifModifiedSince: "Wed, 21 Oct 2015 07:28:00 GMT" },
+    ]);
+  });
+});
+
+test("cache entries within cacheTtl are not revalidated", async () => {
+  let calls = 0;
+  setFetchMock(async () => {
+    calls++;
+    return new Response('export const which = "cached";', {
+      headers: { "content-type": "application/javascript", "etag": '"v1"' },
+    });
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { which } from "lib"; console.log(which);\n'
+    );
+
+    const importMapEsbuildPluginParams: ImportMapEsbuildPluginParams = {
+      importMap: { imports: { lib: "https://example.com/lib.js" } },
+      baseDir: tmpDir.dir,
+      enableHttp: true,
+      cache: "./.http-cache",
+      cacheTtl: 60_000,
+    };
+
+    await runBuild(tmpDir.resolve("./index.js"), { importMapEsbuildPluginParams });
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), { importMapEsbuildPluginParams });
+
+    assert.equal(calls, 1);
+    assert.match(outputText, /cached/);
+  });
+});
+
+test("external: true keeps mapped http imports external and emits the import map entries they use", async () => {
+  setFetchMock(async () => {
+    assert.fail("fetch should not be called");
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { html } from "lit"; import { customElement } from "lit/decorators.js"; import { local } from "local"; console.log(html, customElement, local);\n'
+    );
+    await tmpDir.createFile("./local.js", 'export const local = "bundled-local";\n');
+
+    const { outputText, result } = await runBuild(
+      tmpDir.resolve("./index.js"),
+      {
+        importMapEsbuildPluginParams: {
+          importMap: {
+            imports: {
+              lit: "https://esm.sh/lit@3",
+              "lit/": "https://esm.sh/lit@3/",
+              preact: "https://esm.sh/preact",
+              local: "./local.js",
+            },
+          },
+          baseDir: tmpDir.dir,
+          external: true,
+          externalImportMap: "./dist/importmap.json",
+        },
+      },
+    );
+
+    assert.match(outputText, /from "lit"/);
+    assert.match(outputText, /from "lit\/decorators\.js"/);
+    assert.match(outputText, /bundled-local/);
+
+    const importMapFile = result.outputFiles.find(file => file.path === tmpDir.resolve("./dist/importmap.json"));
+    assert.ok(importMapFile != null, "expected the import map in outputFiles");
+    assert.deepEqual(JSON.parse(importMapFile.text), {
+      imports: {
+        lit: "https://esm.sh/lit@3",
+        "lit/": "https://esm.sh/lit@3/",
+      },
+    });
+  });
+});
+
+test("external imports matched in a scope are written as their URL, or bundled for local targets", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./index.js", 'import a from "a"; import c from "c"; import legacy from "./legacy/x.js"; console.log(a, c, legacy);\n');
+    await tmpDir.createFile("./legacy/x.js", 'import a from "a"; import b from "b"; export default [a, b];\n');
+    await tmpDir.createFile("./legacy/b.js", 'export default "bundled-b";\n');
+
+    const { outputText, result } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: { a: "https://cdn.test/a.js", c: "./c.js" },
+          scopes: { "./legacy/": { a: "https://cdn.test/a-legacy.js", b: "./legacy/b.js" } },
+        },
+        baseDir: tmpDir.dir,
+        external: ["a", "b", "c"],
+        externalImportMap: "./dist/importmap.json",
+      },
+    });
+
+    assert.match(outputText, /from "a"/);
+    assert.match(outputText, /from "https:\/\/cdn\.test\/a-legacy\.js"/);
+    assert.match(outputText, /bundled-b/);
+    assert.match(outputText, /from "c"/);
+
+    const importMapFile = result.outputFiles.find(file => file.path === tmpDir.resolve("./dist/importmap.json"));
+    assert.ok(importMapFile != null, "expected the import map in outputFiles");
+    // Local targets are relative to the emitted import map
+    assert.deepEqual(JSON.parse(importMapFile.text), {
+      imports: { a: "https://cdn.test/a.js", c: "../c.js" },
+    });
+  });
+});
+
+test("externalSpecifier: 'url' rewrites external imports to the URLs they map to", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { html } from "lit"; import { customElement } from "lit/decorators.js"; console.log(html, customElement);\n'
+    );
+
+    const { outputText } = await runBuild(
+      tmpDir.resolve("./index.js"),
+      {
+        importMapEsbuildPluginParams: {
+          importMap: {
+            imports: {
+              lit: "https://esm.sh/lit@3",
+              "lit/": "https://esm.sh/lit@3/",
+            },
+          },
+          baseDir: tmpDir.dir,
+          external: true,
+          externalSpecifier: "url",
+        },
+      },
+    );
+
+    assert.match(outputText, /from "https:\/\/esm\.sh\/lit@3"/);
+    assert.match(outputText, /from "https:\/\/esm\.sh\/lit@3\/decorators\.js"/);
+  });
+});
+
+test("external can select import map keys, bundling the others", async () => {
+  const fetched: string[] = [];
+  setFetchMock(async (info) => {
+    fetched.push(String(info));
+    return makeResponse('export const which = "bundled-preact";');
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./index.js",
+      'import { html } from "lit"; import { which } from "preact"; console.log(html, which);\n'
+    );
+
+    const { outputText } = await runBuild(
+      tmpDir.resolve("./index.js"),
+      {
+        importMapEsbuildPluginParams: {
+          importMap: {
+            imports: {
+              lit: "https://esm.sh/lit@3",
+              preact: "https://esm.sh/preact",
+            },
+          },
+          baseDir: tmpDir.dir,
+          enableHttp: true,
+          external: ["lit"],
+        },
+      },
+    );
+
+    assert.deepEqual(fetched, ["https://esm.sh/preact"]);
+    assert.match(outputText, /from "lit"/);
+    assert.match(outputText, /bundled-preact/);
+  });
+});
+
+test("generateImportMap emits an import map describing how specifiers resolved", async () => {
+  setFetchMock(async (info) => {
+    const url = String(info);
+    if (url === "https://esm.sh/lit@3") {
+      return makeResponse('import "./lit-html.js"; export const html = "lit";');
+    }
+    return makeResponse('export default "dep";');
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile(
+      "./src/index.js",
+      'import { html } from "lit"; import "lit/decorators.js"; import "util"; import "./legacy/old.js"; console.log(html);\n'
+    );
+    await tmpDir.createFile("./src/legacy/old.js", 'import "util";\n');
+    await tmpDir.createFile("./src/util.js", 'export default "util";\n');
+    await tmpDir.createFile("./src/legacy/util.js", 'export default "legacy-util";\n');
+
+    const { result } = await runBuild(
+      tmpDir.resolve("./src/index.js"),
+      {
+        importMapEsbuildPluginParams: {
+          importMap: {
+            imports: {
+              lit: "https://esm.sh/lit@3",
+              "lit/": "https://esm.sh/lit@3/",
+              util: "./src/util.js",
+            },
+            scopes: {
+              "./src/legacy/": { util: "./src/legacy/util.js" },
+            },
+          },
+          baseDir: tmpDir.dir,
+          enableHttp: true,
+          generateImportMap: { path: "./dist/importmap.json", scopes: true, integrity: true },
+        },
+      },
+    );
+
+    const file = result.outputFiles.find(file => file.path === tmpDir.resolve("./dist/importmap.json"));
+    assert.ok(file != null, "expected the generated import map in outputFiles");
+    const generated = JSON.parse(file.text);
+    assert.deepEqual(generated.imports, {
+      lit: "https://esm.sh/lit@3",
+      "lit/decorators.js": "https://esm.sh/lit@3/decorators.js",
+      util: "../src/util.js",
+    });
+    assert.deepEqual(generated.scopes, {
+      "../src/legacy/old.js": { util: "../src/legacy/util.js" },
+    });
+    assert.deepEqual(Object.keys(generated.integrity), [
+      "https://esm.sh/lit-html.js",
+      "https://esm.sh/lit@3",
+      "https://esm.sh/lit@3/decorators.js",
+    ]);
+    assert.match(generated.integrity["https://esm.sh/lit@3"], /^sha384-/);
+  });
+});
+
+test("onEvent reports typed events and a summary of each build", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./a.js", 'export default "a";\n');
+    await tmpDir.createFile("./lib/x.js", 'export default "x";\n');
+    await tmpDir.createFile(
+      "./index.js",
+      'import a from "a"; import x from "lib/x.js"; import lit from "lit"; console.log(a, x, lit);\n'
+    );
+    setFetchMock(async () => makeResponse('export default "lit";\n'));
+
+    const events: ImportMapLogEvent[] = [];
+    const logs: string[] = [];
+    await esbuild.build({
+      entryPoints: [tmpDir.resolve("./index.js")],
+      write: false,
+      bundle: true,
+      logLevel: "silent",
+      plugins: [
+        importMapEsbuildPlugin({
+          importMap: {
+            imports: {
+              a: "./a.js",
+              "lib/": "./lib/",
+              lit: "https://esm.sh/lit",
+              unused: "./a.js",
+            },
+            scopes: { "./legacy/": { a: "./a.js" } },
+          },
+          baseDir: tmpDir.dir,
+          enableHttp: true,
+          onEvent(event) { events.push(event); },
+          onLog(message) { logs.push(message); },
+        }),
+      ],
+    });
+
+    assert.deepEqual(
+      events
+        .flatMap(event => event.type === "resolve-exact" || event.type === "resolve-prefix"
+          ? [[event.type, event.specifier, event.key]]
+          : [])
+        .sort(),
+      [
+        ["resolve-exact", "a", "a"],
+        ["resolve-exact", "lit", "lit"],
+        ["resolve-prefix", "lib/x.js", "lib/"],
+      ],
+    );
+    assert.ok(events.some(event => event.type === "http-resolve" && event.url === "https://esm.sh/lit"));
+    assert.ok(events.some(event => event.type === "download-start" && event.url === "https://esm.sh/lit"));
+
+    const summary = events.at(-1);
+    assert.equal(summary?.type, "summary");
+    assert.equal(summary.summary.mappedSpecifiers, 3);
+    assert.deepEqual(summary.summary.unusedEntries, [
+      { key: "unused", source: "importMap", path: ["imports", "unused"] },
+      {
+        key: "a",
+        scope: pathToFileURL(tmpDir.resolve("./legacy")).href + "/",
+        source: "importMap",
+        path: ["scopes", "./legacy/", "a"],
+      },
+    ]);
+    assert.equal(summary.summary.downloads, 1);
+    assert.equal(summary.summary.bytesDownloaded, 'export default "lit";\n'.length);
+    assert.deepEqual(summary.summary.slowestDownloads.map(download => download.url), ["https://esm.sh/lit"]);
+
+    // onLog gets the same events as text
+    assert.equal(logs.length, events.length);
+    assert.ok(logs.includes("Exact match: a -> " + pathToFileURL(tmpDir.resolve("./a.js")).href));
+    assert.match(logs.at(-1)!, /^Build summary: 3 specifiers mapped, 2 unused import map entries, 1 downloads/);
+    assert.match(logs.at(-1)!, /Unused: "unused" \(in importMap\)/);
+  });
+});
+
+test("errors of a build are reported as error events", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./index.js", 'import "lodash";\n');
+
+    const events: ImportMapLogEvent[] = [];
+    await assert.rejects(() => esbuild.build({
+      entryPoints: [tmpDir.resolve("./index.js")],
+      write: false,
+      bundle: true,
+      logLevel: "silent",
+      plugins: [
+        importMapEsbuildPlugin({
+          importMap: { imports: { lodash: null } },
+          baseDir: tmpDir.dir,
+          onEvent(event) { events.push(event); },
+        }),
+      ],
+    }));
+
+    const errors = events.flatMap(event => event.type === "error" ? [event.message] : []);
+    assert.equal(errors.length, 1);
+    assert.match(errors[0], /specifier "lodash" is blocked/);
+    // Blocking entries count as used
+    const summary = events.at(-1);
+    assert.equal(summary?.type, "summary");
+    assert.deepEqual(summary.summary.unusedEntries, []);
+  });
+});
+
+test("reportUnused reports import map entries that no import matched", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./a.js", 'export default "a";\n');
+    await tmpDir.createFile("./lib/x.js", 'export default "x";\n');
+    await tmpDir.createFile("./index.js", 'import a from "a"; import x from "lib/x.js"; console.log(a, x);\n');
+    await tmpDir.createFile("./importmap.json", [
+      '{',
+      '  "imports": {',
+      '    "a": "./a.js",',
+      '    "lib/": "./lib/",',
+      '    "stale": "./a.js",',
+      '    "banned": null',
+      '  },',
+      '  "scopes": {',
+      '    "./legacy/": { "a": "./a.js" }',
+      '  }',
+      '}',
+      '',
+    ].join('\n'));
+
+    const { result } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMapPath: "./importmap.json",
+        baseDir: tmpDir.dir,
+        reportUnused: 'warning',
+      },
+    });
+    const warnings = result.warnings.filter(warning => warning.pluginName === "importmap-esbuild-plugin");
+    assert.deepEqual(warnings.map(warning => warning.location?.line), [5, 9]);
+    assert.match(warnings[0].text, /import map entry "stale" is not used by any import \(in .*importmap\.json\)/);
+    assert.match(warnings[1].text, /import map entry "a" in scope "\.\/legacy\/" is not used by any import/);
+
+    await assert.rejects(
+      () =>
+        runBuild(tmpDir.resolve("./index.js"), {
+          importMapEsbuildPluginParams: {
+            importMapPath: "./importmap.json",
+            baseDir: tmpDir.dir,
+            reportUnused: 'error',
+          },
+        }),
+      (err: esbuild.BuildFailure) => {
+        assert.equal(err.errors.length, 2);
+        assert.match(err.errors[0].text, /import map entry "stale" is not used/);
+        return true;
+      },
+    );
+  });
+});
+
+test("usage collects which import map entries are used across builds", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./a.js", 'export default "a";\n');
+    await tmpDir.createFile("./b.js", 'export default "b";\n');
+    await tmpDir.createFile("./app1.js", 'import a from "a"; console.log(a);\n');
+    await tmpDir.createFile("./app2.js", 'import b from "b"; console.log(b);\n');
+
+    const usage = new ImportMapUsage();
+    const importMap = { imports: { a: "./a.js", b: "./b.js", c: "./a.js" } };
+    for (const app of ["./app1.js", "./app2.js"]) {
+      await runBuild(tmpDir.resolve(app), {
+        importMapEsbuildPluginParams: { importMap, baseDir: tmpDir.dir, usage },
+      });
+    }
+
+    assert.deepEqual(usage.usedEntries().map(entry => entry.key), ["a", "b"]);
+    assert.deepEqual(usage.unusedEntries(), [{ key: "c", source: "importMap", path: ["imports", "c"] }]);
+  });
+});
+
+test("file: URL targets are local paths", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./vendor/lib.js", 'export default "lib";\n');
+    await tmpDir.createFile("./index.js", 'import lib from "lib"; console.log(lib);\n');
+
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: { imports: { lib: pathToFileURL(tmpDir.resolve("./vendor/lib.js")).href } },
+        baseDir: tmpDir.dir,
+      },
+    });
+    assert.match(outputText, /"lib"/);
+  });
+});
+
+test("data: URL targets are inline modules, loaded by their MIME type", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./index.js", [
+      'import a from "a";',
+      'import b from "b";',
+      'import c from "c";',
+      'import d from "d";',
+      'console.log(a, b, c, d);',
+      '',
+    ].join('\n'));
+
+    const ts = 'const x: string = "from-ts"; export default x;';
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: {
+            a: 'data:text/javascript,export default "from-js";',
+            b: `data:text/javascript;base64,${Buffer.from('export default "from-base64";').toString('base64')}`,
+            c: `data:application/typescript,${encodeURIComponent(ts)}`,
+            d: 'data:application/json,{"value":"from-json"}',
+          },
+        },
+        baseDir: tmpDir.dir,
+      },
+    });
+    assert.match(outputText, /"from-js"/);
+    assert.match(outputText, /"from-base64"/);
+    assert.match(outputText, /"from-ts"/);
+    assert.doesNotMatch(outputText, /: string/);
+    assert.match(outputText, /"from-json"/);
+  });
+});
+
+test("data: URL targets decode only valid percent escapes, and ignore whitespace in base64", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./index.js", 'import a from "a"; import b from "b"; console.log(a, b);\n');
+
+    const base64 = Buffer.from('export default "spaced-base64";').toString('base64');
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: {
+        importMap: {
+          imports: {
+            a: 'data:text/javascript,export default [5 % 2, "100%", "%41"];',
+            b: `data:text/javascript;base64,${base64.slice(0, 8)} ${base64.slice(8)}`,
+          },
+        },
+        baseDir: tmpDir.dir,
+      },
+    });
+    assert.match(outputText, /5 % 2/);
+    assert.match(outputText, /"100%"/);
+    assert.match(outputText, /"A"/);
+    assert.match(outputText, /"spaced-base64"/);
+  });
+});
+
+test("full URL imports inside data: URL modules are fetched when HTTP is enabled", async () => {
+  const fetched: string[] = [];
+  setFetchMock(async (info) => {
+    fetched.push(String(info));
+    return makeResponse('export default "from-cdn";');
+  });
+
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./index.js", 'import a from "a"; console.log(a);\n');
+    const importMap = {
+      imports: { a: 'data:text/javascript,export { default } from "https://cdn.test/a.js";' },
+    };
+
+    const { outputText } = await runBuild(tmpDir.resolve("./index.js"), {
+      importMapEsbuildPluginParams: { importMap, baseDir: tmpDir.dir, enableHttp: true },
+    });
+    assert.deepEqual(fetched, ["https://cdn.test/a.js"]);
+    assert.match(outputText, /"from-cdn"/);
+
+    await assert.rejects(
+      () => runBuild(tmpDir.resolve("./index.js"), {
+        importMapEsbuildPluginParams: { importMap, baseDir: tmpDir.dir },
+      }),
+      /HTTP\(S\) imports are disabled/,
+    );
+  });
+});
+
+test("data: URL targets with an unsupported MIME type fail the build", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./index.js", 'import "a";\n');
+
+    await assert.rejects(
+      () =>
+        runBuild(tmpDir.resolve("./index.js"), {
+          importMapEsbuildPluginParams: {
+            importMap: { imports: { a: "data:image/png;base64,AAAA" } },
+            baseDir: tmpDir.dir,
+          },
+        }),
+      /data: URL module has unsupported MIME type "image\/png"/,
+    );
+  });
+});
+
+test("relative imports inside data: URL modules fail with an error at the import", async () => {
+  await withTempDir(async (tmpDir) => {
+    await tmpDir.createFile("./index.js", 'import "a";\n');
+
+    await assert.rejects(
+      () =>
+        runBuild(tmpDir.resolve("./index.js"), {
+          importMapEsbuildPluginParams: {
+            importMap: { imports: { a: 'data:text/javascript,import "./util.js";' } },
+            baseDir: tmpDir.dir,
+          },
+        }),
+      (err: esbuild.BuildFailure) => {
+        assert.equal(err.errors.length, 1);
+        assert.match(
+          err.errors[0].text,
+          /import "\.\/util\.js" inside a data: URL module can't be resolved, as data: URLs have no base URL/,
+        );
+        assert.equal(err.errors[0].location?.lineText, 'import "./util.js";');
+        return true;
+      },
+    );
+  });
+});
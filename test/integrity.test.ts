@@ -0,0 +1,52 @@
+import { createHash } from 'node:crypto';
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { checkIntegrity, computeIntegrity } from '../src/integrity.js';
+
+const encoder = new TextEncoder();
+const contents = encoder.encode("export const a = 1;");
+
+function hash(algorithm: string, data: string) {
+  return `${algorithm}-${createHash(algorithm).update(data).digest("base64")}`;
+}
+
+test("computeIntegrity produces SRI-style hashes", () => {
+  assert.equal(computeIntegrity("sha256", contents), hash("sha256", "export const a = 1;"));
+  assert.equal(computeIntegrity("sha384", contents), hash("sha384", "export const a = 1;"));
+  assert.equal(computeIntegrity("sha512", contents), hash("sha512", "export const a = 1;"));
+});
+
+test("checkIntegrity passes for a matching hash", () => {
+  const result = checkIntegrity(hash("sha384", "export const a = 1;"), contents);
+  assert.equal(result.ok, true);
+});
+
+test("checkIntegrity fails for a non-matching hash and reports both hashes", () => {
+  const expected = hash("sha256", "export const a = 2;");
+  const result = checkIntegrity(expected, contents);
+  assert.equal(result.ok, false);
+  assert.deepEqual(result.expected, [expected]);
+  assert.equal(result.actual, hash("sha256", "export const a = 1;"));
+});
+
+test("checkIntegrity only considers the strongest algorithm present", () => {
+  // sha256 matches, but the sha512 hash (which wins) does not
+  const metadata = [
+    hash("sha256", "export const a = 1;"),
+    hash("sha512", "export const a = 2;"),
+  ].join(" ");
+  assert.equal(checkIntegrity(metadata, contents).ok, false);
+});
+
+test("checkIntegrity passes if any hash of the strongest algorithm matches", () => {
+  const metadata = [
+    hash("sha384", "export const a = 2;"),
+    hash("sha384", "export const a = 1;") + "?opt",
+  ].join("  ");
+  assert.equal(checkIntegrity(metadata, contents).ok, true);
+});
+
+test("checkIntegrity passes when no supported hashes are present", () => {
+  assert.equal(checkIntegrity("md5-abc", contents).ok, true);
+});
@@ -0,0 +1,42 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { findJsonLocation } from '../src/json-location.js';
+
+const text = [
+  '{',
+  '  "imports": { "a": "./a.js" },',
+  '  "scopes": {',
+  '    "/legacy/": {',
+  '      "a": "./legacy-a.js"',
+  '    }',
+  '  }',
+  '}',
+].join('\n');
+
+test("findJsonLocation finds nested keys in order", () => {
+  assert.deepEqual(findJsonLocation(text, ["scopes", "/legacy/", "a"]), {
+    line: 5,
+    column: 6,
+    length: 3,
+    lineText: '      "a": "./legacy-a.js"',
+  });
+  assert.equal(findJsonLocation(text, ["imports", "a"])?.line, 2);
+});
+
+test("findJsonLocation skips strings that are values rather than keys", () => {
+  const location = findJsonLocation('{ "imports": { "x": "a", "a": "b" } }', ["imports", "a"]);
+  assert.equal(location?.column, 25);
+});
+
+test("findJsonLocation falls back to the deepest key found", () => {
+  assert.equal(findJsonLocation(text, ["scopes", "missing"])?.line, 3);
+  assert.equal(findJsonLocation(text, ["missing"]), undefined);
+  assert.equal(findJsonLocation(text, []), undefined);
+});
+
+test("findJsonLocation counts columns in bytes", () => {
+  const location = findJsonLocation('{ "é": { "a": 1 } }', ["é", "a"]);
+  assert.equal(location?.column, 10);
+  assert.equal(findJsonLocation('{ "é": 1 }', ["é"])?.length, 4);
+});
@@ -0,0 +1,54 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { readFile, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { Lockfile } from '../src/lockfile.js';
+
+async function withTempDir(fn: (dir: string) => Promise<void>) {
+  const dir = mkdtempSync(join(tmpdir(), 'lockfile-'));
+  try {
+    await fn(dir);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test("a missing lockfile reads as empty", async () => {
+  await withTempDir(async (dir) => {
+    const lockfile = await Lockfile.read(join(dir, "importmap.lock.json"));
+    assert.equal(lockfile.get("https://example.com/a.js"), undefined);
+    assert.equal(lockfile.isModified, false);
+  });
+});
+
+test("entries round-trip, sorted by URL", async () => {
+  await withTempDir(async (dir) => {
+    const path = join(dir, "nested", "importmap.lock.json");
+    const lockfile = await Lockfile.read(path);
+    lockfile.set("https://example.com/b.js", { resolvedUrl: "https://example.com/b.js", integrity: "sha384-b" });
+    lockfile.set("https://example.com/a.js", { resolvedUrl: "https://example.com/v1/a.js", integrity: "sha384-a" });
+    assert.equal(lockfile.isModified, true);
+    await lockfile.write();
+    assert.equal(lockfile.isModified, false);
+
+    const text = await readFile(path, "utf8");
+    assert.ok(text.indexOf("/a.js") < text.indexOf("/b.js"));
+
+    const reread = await Lockfile.read(path);
+    assert.deepEqual(reread.get("https://example.com/a.js"), {
+      resolvedUrl: "https://example.com/v1/a.js",
+      integrity: "sha384-a",
+    });
+  });
+});
+
+test("rejects unsupported lockfile versions", async () => {
+  await withTempDir(async (dir) => {
+    const path = join(dir, "importmap.lock.json");
+    await writeFile(path, JSON.stringify({ version: 99, remote: {} }), "utf8");
+    await assert.rejects(() => Lockfile.read(path), /Unsupported lockfile version 99/);
+  });
+});
@@ -0,0 +1,190 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as esbuild from 'esbuild';
+
+import { importMapEsbuildPlugin } from '../src/importmap-esbuild-plugin.js';
+import { vendorImportMap } from '../src/vendor.js';
+
+async function withTempDir(fn: (dir: string) => Promise<void>) {
+  const dir = mkdtempSync(join(tmpdir(), 'vendor-'));
+  try {
+    await fn(dir);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+async function createFile(path: string, content: string) {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, content, 'utf8');
+}
+
+const modules: Record<string, { body: string, redirect?: string, contentType?: string }> = {
+  "https://esm.sh/lit": {
+    redirect: "https://esm.sh/lit@3/index.js",
+    body: [
+      'import { dep } from "/lit@3/dep.js";',
+      'import { rel } from "./rel.js";',
+      'import { x } from "https://cdn.example.com/x?target=es2022";',
+      'export const lit = ["lit", dep, rel, x].join(",");',
+    ].join("\n"),
+  },
+  "https://esm.sh/lit@3/dep.js": { body: 'export const dep = "dep";' },
+  "https://esm.sh/lit@3/rel.js": { body: 'export const rel = "rel";' },
+  "https://esm.sh/lit/decorators.js": { body: 'export const decorators = "decorators";' },
+  "https://cdn.example.com/x?target=es2022": { body: 'export const x = "x";' },
+  "https://esm.sh/unused.js": { body: 'export default "unused";' },
+};
+
+async function mockFetch(url: string) {
+  const module = modules[url];
+  assert.ok(module != null, `unexpected fetch ${url}`);
+  const res = new Response(module.body, {
+    headers: { "content-type": module.contentType ?? "application/javascript" },
+  });
+  if (module.redirect != null) {
+    Object.defineProperty(res, "url", { value: module.redirect });
+  }
+  return res;
+}
+
+test("vendorImportMap downloads reachable modules and writes an import map for them", async () => {
+  await withTempDir(async (dir) => {
+    await createFile(join(dir, "src/app.js"), 'export const app = "app";');
+    await createFile(
+      join(dir, "index.js"),
+      [
+        'import { lit } from "lit";',
+        'import { decorators } from "lit/decorators.js";',
+        'import { app } from "app";',
+        'console.log(lit, decorators, app);',
+      ].join("\n"),
+    );
+
+    const result = await vendorImportMap({
+      entryPoints: ["./index.js"],
+      importMap: {
+        imports: {
+          lit: "https://esm.sh/lit",
+          "lit/": "https://esm.sh/lit/",
+          unused: "https://esm.sh/unused.js",
+          app: "./src/app.js",
+        },
+      },
+      baseDir: dir,
+      fetch: mockFetch,
+    });
+
+    assert.equal(result.importMapPath, join(dir, "vendor/import_map.json"));
+    assert.deepEqual(
+      result.modules.map(({ url, path }) => [url, path.slice(dir.length + 1).split("\\").join("/")]),
+      [
+        ["https://cdn.example.com/x?target=es2022", `vendor/cdn.example.com/x_${result.modules[0].path.match(/x_([0-9a-f]{8})\.js$/)![1]}.js`],
+        ["https://esm.sh/lit", "vendor/esm.sh/lit@3/index.js"],
+        ["https://esm.sh/lit/decorators.js", "vendor/esm.sh/lit/decorators.js"],
+        ["https://esm.sh/lit@3/dep.js", "vendor/esm.sh/lit@3/dep.js"],
+        ["https://esm.sh/lit@3/rel.js", "vendor/esm.sh/lit@3/rel.js"],
+      ],
+    );
+    assert.equal(
+      await readFile(join(dir, "vendor/esm.sh/lit@3/dep.js"), "utf8"),
+      'export const dep = "dep";',
+    );
+
+    const written = JSON.parse(await readFile(result.importMapPath, "utf8"));
+    assert.deepEqual(written, result.importMap);
+    const imports = result.importMap.imports!;
+    assert.equal(imports.lit, "./esm.sh/lit@3/index.js");
+    assert.equal(imports["lit/"], "./esm.sh/lit/");
+    assert.equal(imports.app, "../src/app.js");
+    // Not reached by the build, so left as is
+    assert.equal(imports.unused, "https://esm.sh/unused.js");
+
+    // The vendored import map builds without network access
+    const { outputFiles } = await esbuild.build({
+      entryPoints: [join(dir, "index.js")],
+      write: false,
+      bundle: true,
+      format: "esm",
+      logLevel: "silent",
+      plugins: [
+        importMapEsbuildPlugin({
+          importMapPath: result.importMapPath,
+          fetch: async (url) => assert.fail(`unexpected fetch ${url}`),
+        }),
+      ],
+    });
+    const output = outputFiles[0].text;
+    for (const value of ["lit", "dep", "rel", "x", "decorators", "app"]) {
+      assert.match(output, new RegExp(`"${value}"`));
+    }
+  });
+});
+
+test("vendorImportMap honors vendorDir and outputImportMap", async () => {
+  await withTempDir(async (dir) => {
+    await createFile(join(dir, "index.js"), 'import "https://esm.sh/lit@3/dep.js";');
+
+    const result = await vendorImportMap({
+      entryPoints: ["./index.js"],
+      baseDir: dir,
+      allowUrlImports: true,
+      vendorDir: "third_party",
+      outputImportMap: "importmap.vendor.json",
+      fetch: mockFetch,
+    });
+
+    assert.equal(result.importMapPath, join(dir, "importmap.vendor.json"));
+    assert.deepEqual(result.importMap.imports, { "https://esm.sh/": "./third_party/esm.sh/" });
+    assert.equal(
+      await readFile(join(dir, "third_party/esm.sh/lit@3/dep.js"), "utf8"),
+      'export const dep = "dep";',
+    );
+  });
+});
+
+test("vendorImportMap maps bare imports resolved with remoteBareSpecifiers to their local copies", async () => {
+  await withTempDir(async (dir) => {
+    await createFile(join(dir, "index.js"), 'import { lib } from "lib"; console.log(lib);');
+
+    const bodies: Record<string, string> = {
+      "https://cdn.test/lib.js": 'import { h } from "preact"; export const lib = ["lib", h].join(",");',
+      "https://esm.sh/preact": 'export const h = "preact";',
+    };
+    const result = await vendorImportMap({
+      entryPoints: ["./index.js"],
+      importMap: { imports: { lib: "https://cdn.test/lib.js" } },
+      baseDir: dir,
+      remoteBareSpecifiers: { cdn: "https://esm.sh/{name}" },
+      fetch: async (url) => {
+        assert.ok(bodies[url] != null, `unexpected fetch ${url}`);
+        return new Response(bodies[url], { headers: { "content-type": "application/javascript" } });
+      },
+    });
+
+    assert.deepEqual(result.importMap.scopes!["./cdn.test/"], {
+      "/lib.js": "./cdn.test/lib.js",
+      "preact": "./esm.sh/preact.js",
+    });
+
+    // The vendored import map builds without network access
+    const { outputFiles } = await esbuild.build({
+      entryPoints: [join(dir, "index.js")],
+      write: false,
+      bundle: true,
+      format: "esm",
+      logLevel: "silent",
+      plugins: [
+        importMapEsbuildPlugin({
+          importMapPath: result.importMapPath,
+          fetch: async (url) => assert.fail(`unexpected fetch ${url}`),
+        }),
+      ],
+    });
+    assert.match(outputFiles[0].text, /"preact"/);
+  });
+});